@@ -17,6 +17,8 @@ import { baseSepolia } from "viem/chains";
 const API_BASE_URL = process.env.MOCKESTRATOR_URL ?? "http://localhost:4000";
 const API_KEY = "test-api-key";
 const API_VERSION = "2026-04.blanc";
+// Must match ADMIN_API_KEY of the server under test, see the start script
+const ADMIN_KEY = process.env.ADMIN_API_KEY ?? "mockestrator-admin";
 const RPC_URL = "http://localhost:30005";
 const USDC_DECIMALS = 6;
 
@@ -26,6 +28,7 @@ const headers = {
   "Content-Type": "application/json",
   "x-api-key": API_KEY,
   "x-api-version": API_VERSION,
+  "x-admin-key": ADMIN_KEY,
 };
 
 async function apiCall<T>(
@@ -47,6 +50,23 @@ async function apiCall<T>(
   return response.json();
 }
 
+async function waitForIntentStatus(
+  intentId: string,
+  timeoutMs = 20000
+): Promise<any> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const status = await apiCall<any>("GET", `/intents/${intentId}`);
+    if (
+      ["COMPLETED", "FAILED", "EXPIRED"].includes(status.status) ||
+      Date.now() > deadline
+    ) {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
 describe("Account Deployment via Intent Execution", () => {
   let ownerPrivateKey: Hex;
   let ownerAddress: Address;
@@ -97,6 +117,30 @@ describe("Account Deployment via Intent Execution", () => {
     });
     expect(balance).toBe(parseEther("10"));
 
+    // Quotes are sourced from real balances, so give the account USDC on another
+    // chain with some headroom for the route fees
+    await apiCall<any>("POST", "/admin/fund", {
+      requests: [
+        {
+          chainId: "eip155:11155111",
+          address: counterfactualAddress,
+          token: "USDC",
+          amount: parseUnits("2", USDC_DECIMALS).toString(),
+        },
+      ],
+    });
+    await apiCall<any>("POST", "/admin/approve", {
+      requests: [
+        {
+          chainId: "eip155:11155111",
+          owner: counterfactualAddress,
+          spender: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
+          token: "USDC",
+          amount: parseUnits("2", USDC_DECIMALS).toString(),
+        },
+      ],
+    });
+
     const transaction = {
       targetChain: baseSepolia,
       tokenRequests: [
@@ -122,12 +166,7 @@ describe("Account Deployment via Intent Execution", () => {
     expect(result.id).toBeDefined();
     console.log(`Transaction submitted with ID: ${result.id}`);
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const statusResponse = await apiCall<any>(
-      "GET",
-      `/intents/${result.id}`
-    );
+    const statusResponse = await waitForIntentStatus(String(result.id));
 
     expect(statusResponse.status).toBe("COMPLETED");
     expect(statusResponse.fillTransactionHash).toBeDefined();
@@ -198,12 +237,7 @@ describe("Account Deployment via Intent Execution", () => {
 
     expect(result.type).toBe("intent");
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const statusResponse = await apiCall<any>(
-      "GET",
-      `/intents/${result.id}`
-    );
+    const statusResponse = await waitForIntentStatus(String(result.id));
 
     expect(statusResponse.status).toBe("COMPLETED");
 
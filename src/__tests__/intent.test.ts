@@ -1,17 +1,23 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import {
   Address,
   createPublicClient,
+  createTestClient,
   decodeEventLog,
+  encodeFunctionData,
   erc20Abi,
+  maxUint256,
   Hex,
   http,
   parseUnits,
 } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 
 const API_BASE_URL = process.env.MOCKESTRATOR_URL ?? "http://localhost:4000";
 const API_KEY = "test-api-key";
 const API_VERSION = "2026-04.blanc";
+// Must match ADMIN_API_KEY of the server under test, see the start script
+const ADMIN_KEY = process.env.ADMIN_API_KEY ?? "mockestrator-admin";
 
 // Chain IDs from rpcs.json
 const BASE_SEPOLIA_CHAIN_ID = 84532;
@@ -23,6 +29,8 @@ const USDC_BASE_SEPOLIA = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
 const USDC_SEPOLIA = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
 // User and recipient addresses
 const USER_ADDRESS = "0xDeaDbeefdEAdbeefdEadbEEFdeadbeEFdEaDbeeF";
+// Spender the claims require an approval for
+const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
 // RPC URLs from rpcs.json
 const RPC_URLS: Record<number, string> = {
   [BASE_SEPOLIA_CHAIN_ID]: "http://localhost:30005",
@@ -33,6 +41,7 @@ const headers = {
   "Content-Type": "application/json",
   "x-api-key": API_KEY,
   "x-api-version": API_VERSION,
+  "x-admin-key": ADMIN_KEY,
 };
 
 async function apiCall<T>(
@@ -54,6 +63,24 @@ async function apiCall<T>(
   return response.json();
 }
 
+const TERMINAL_STATUSES = ["COMPLETED", "FAILED", "EXPIRED"];
+
+// Intents are filled in the background, so poll until the lifecycle settles.
+async function waitForIntentStatus(
+  intentId: string,
+  statuses: string[] = TERMINAL_STATUSES,
+  timeoutMs = 20000
+): Promise<any> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const status = await apiCall<any>("GET", `/intents/${intentId}`);
+    if (statuses.includes(status.status) || Date.now() > deadline) {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
 // Mock signature that mockestrator accepts as "valid" (any non-fake hex)
 const MOCK_DEST_SIG = ("0x" + "ab".repeat(65)) as Hex;
 const MOCK_ORIGIN_SIG = ("0x" + "cd".repeat(65)) as Hex;
@@ -152,6 +179,88 @@ describe("Mockestrator Intent Flow", () => {
 
       expect(response.intents).toHaveLength(0);
     });
+
+    describe("with liquidity caps", () => {
+      afterEach(async () => {
+        await fetch(`${API_BASE_URL}/admin/liquidity`, {
+          method: "DELETE",
+          headers,
+        });
+      });
+
+      const setCap = (chainId: string, token: string, maxAmount: string | null) =>
+        apiCall<any>("POST", "/admin/liquidity", { chainId, token, maxAmount });
+
+      it("should chunk amounts above the cap into several intents", async () => {
+        await setCap(BASE_SEPOLIA_CAIP2, "USDC", "400000");
+        const response = await apiCall<any>("POST", "/intents/splits", {
+          chainId: BASE_SEPOLIA_CAIP2,
+          tokens: { [USDC_BASE_SEPOLIA]: "1000000" },
+        });
+
+        expect(response.intents.map((i: any) => i[USDC_BASE_SEPOLIA])).toEqual([
+          "400000",
+          "400000",
+          "200000",
+        ]);
+      });
+
+      it("should keep uncapped tokens in the first intent", async () => {
+        await setCap(SEPOLIA_CAIP2, USDC_SEPOLIA, "3000000");
+        const response = await apiCall<any>("POST", "/intents/splits", {
+          chainId: SEPOLIA_CAIP2,
+          tokens: {
+            [USDC_SEPOLIA]: "5000000",
+            "0x0000000000000000000000000000000000000000": "1000000000000000000",
+          },
+        });
+
+        expect(response.intents).toEqual([
+          {
+            [USDC_SEPOLIA]: "3000000",
+            "0x0000000000000000000000000000000000000000": "1000000000000000000",
+          },
+          { [USDC_SEPOLIA]: "2000000" },
+        ]);
+      });
+
+      it("should apply the limits of the requested settlement layers", async () => {
+        const split = (settlementLayers?: string[]) =>
+          apiCall<any>("POST", "/intents/splits", {
+            chainId: SEPOLIA_CAIP2,
+            tokens: { [USDC_SEPOLIA]: parseUnits("5000", 6).toString() },
+            settlementLayers,
+          });
+
+        // OFT is limited to 2000 USDC per intent in config.json
+        expect((await split(["OFT"])).intents).toHaveLength(3);
+        expect((await split(["OFT", "ACROSS"])).intents).toHaveLength(1);
+        expect((await split()).intents).toHaveLength(1);
+      });
+
+      it("should reject splits when there is no liquidity at all", async () => {
+        await setCap(BASE_SEPOLIA_CAIP2, "USDC", "0");
+        const response = await fetch(`${API_BASE_URL}/intents/splits`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            chainId: BASE_SEPOLIA_CAIP2,
+            tokens: { [USDC_BASE_SEPOLIA]: "1000000" },
+          }),
+        });
+        expect(response.status).toBe(422);
+        expect((await response.json()).code).toBe("INSUFFICIENT_LIQUIDITY");
+      });
+
+      it("should reject negative caps", async () => {
+        const response = await fetch(`${API_BASE_URL}/admin/liquidity`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ chainId: BASE_SEPOLIA_CAIP2, token: "USDC", maxAmount: "-1" }),
+        });
+        expect(response.status).toBe(400);
+      });
+    });
   });
 
   describe("Validation errors", () => {
@@ -191,6 +300,33 @@ describe("Mockestrator Intent Flow", () => {
       expect(response.status).toBe(400);
     });
 
+    it("should return 400 for splits request with a non-numeric amount", async () => {
+      const response = await fetch(`${API_BASE_URL}/intents/splits`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          chainId: BASE_SEPOLIA_CAIP2,
+          tokens: { [USDC_BASE_SEPOLIA]: "1.5" },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should return 400 for a failure rule with a malformed chain id", async () => {
+      const response = await fetch(`${API_BASE_URL}/admin/failures`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          match: { destinationChainId: "base-sepolia" },
+          error: { code: "INSUFFICIENT_LIQUIDITY" },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
     it("should return 404 for non-existent intent", async () => {
       const response = await fetch(
         `${API_BASE_URL}/intents/9999999999999999999`,
@@ -246,10 +382,7 @@ describe("Mockestrator Intent Flow", () => {
 
       expect(submitResponse.intentId).toBe(route.intentId);
 
-      const statusResponse = await apiCall<any>(
-        "GET",
-        `/intents/${route.intentId}`
-      );
+      const statusResponse = await waitForIntentStatus(route.intentId);
 
       expect(statusResponse.status).toBe("COMPLETED");
       expect(statusResponse.destinationChainId).toBe(BASE_SEPOLIA_CAIP2);
@@ -282,215 +415,1564 @@ describe("Mockestrator Intent Flow", () => {
     });
   });
 
-  describe("Cross-chain Intent Flow", () => {
-    it("should quote and execute cross-chain USDC transfer (Base Sepolia → Sepolia)", async () => {
-      const transferAmount = parseUnits("50", 6);
+  describe("Source selection", () => {
+    it("should return INSUFFICIENT_LIQUIDITY for an account without funds", async () => {
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            {
+              tokenAddress: USDC_BASE_SEPOLIA,
+              amount: parseUnits("1", 6).toString(),
+            },
+          ],
+          account: { address: privateKeyToAccount(generatePrivateKey()).address },
+        }),
+      });
+
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.code).toBe("INSUFFICIENT_LIQUIDITY");
+    });
 
+    it("should source from another chain when the destination is excluded", async () => {
       const quoteResponse = await apiCall<any>("POST", "/quotes", {
-        destinationChainId: SEPOLIA_CAIP2,
+        destinationChainId: BASE_SEPOLIA_CAIP2,
         tokenRequests: [
-          { tokenAddress: USDC_SEPOLIA, amount: transferAmount.toString() },
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("1", 6).toString(),
+          },
         ],
         account: { address: USER_ADDRESS },
-        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        accountAccessList: { exclude: { chainIds: [BASE_SEPOLIA_CAIP2] } },
       });
 
       const route = quoteResponse.routes[0];
       expect(route.settlementLayer).toBe("ACROSS");
+      for (const input of route.cost.input) {
+        expect(input.chainId).not.toBe(BASE_SEPOLIA_CAIP2);
+      }
+    });
 
-      await apiCall<any>("POST", "/intents", {
-        intentId: route.intentId,
-        signatures: {
-          origin: [MOCK_ORIGIN_SIG],
-          destination: MOCK_DEST_SIG,
-        },
+    it("should respect chainTokenAmounts caps", async () => {
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            {
+              tokenAddress: USDC_BASE_SEPOLIA,
+              amount: parseUnits("10", 6).toString(),
+            },
+          ],
+          account: { address: USER_ADDRESS },
+          accountAccessList: {
+            chainTokenAmounts: {
+              [SEPOLIA_CAIP2]: { USDC: parseUnits("5", 6).toString() },
+            },
+          },
+        }),
       });
 
-      const statusResponse = await apiCall<any>(
-        "GET",
-        `/intents/${route.intentId}`
-      );
+      expect(response.status).toBe(422);
+    });
 
-      expect(statusResponse.status).toBe("COMPLETED");
-      expect(statusResponse.destinationChainId).toBe(SEPOLIA_CAIP2);
+    it("should reject malformed access list chain ids and amounts", async () => {
+      const quote = (accountAccessList: object) =>
+        fetch(`${API_BASE_URL}/quotes`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            destinationChainId: BASE_SEPOLIA_CAIP2,
+            tokenRequests: [
+              {
+                tokenAddress: USDC_BASE_SEPOLIA,
+                amount: parseUnits("1", 6).toString(),
+              },
+            ],
+            account: { address: USER_ADDRESS },
+            accountAccessList,
+          }),
+        });
+
+      for (const accountAccessList of [
+        { chainTokenAmounts: { "base-sepolia": { USDC: "1000000" } } },
+        { chainTokenAmounts: { [BASE_SEPOLIA_CAIP2]: { USDC: "1 USDC" } } },
+        { exclude: { chainTokens: { sepolia: ["USDC"] } } },
+      ]) {
+        const response = await quote(accountAccessList);
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe("VALIDATION_ERROR");
+      }
+    });
+  });
 
-      const publicClient = createPublicClient({
-        transport: http(RPC_URLS[SEPOLIA_CHAIN_ID]),
+  describe("Multi-origin quotes", () => {
+    it("should split the input across chains and claim on each of them", async () => {
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [BASE_SEPOLIA_CAIP2, SEPOLIA_CAIP2].map((chainId) => ({
+          chainId,
+          address: account,
+          token: "USDC",
+          amount: parseUnits("3", 6).toString(),
+        })),
       });
-      const receipt = await publicClient.getTransactionReceipt({
-        hash: statusResponse.fillTransactionHash as Hex,
+      await apiCall<any>("POST", "/admin/approve", {
+        requests: [BASE_SEPOLIA_CAIP2, SEPOLIA_CAIP2].map((chainId) => ({
+          chainId,
+          owner: account,
+          spender: PERMIT2,
+          token: "USDC",
+          amount: parseUnits("3", 6).toString(),
+        })),
       });
-      expect(receipt.status).toBe("success");
 
-      const transferLogs = receipt.logs.filter(
-        (log) => log.address.toLowerCase() === USDC_SEPOLIA.toLowerCase()
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("5", 6).toString(),
+          },
+        ],
+        account: { address: account },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2, SEPOLIA_CAIP2] },
+      });
+
+      const route = quoteResponse.routes[0];
+      expect(route.signData.origin).toHaveLength(2);
+      const inputChains = route.cost.input.map((i: any) => i.chainId).sort();
+      expect(inputChains).toEqual([BASE_SEPOLIA_CAIP2, SEPOLIA_CAIP2].sort());
+      const inputTotal = route.cost.input.reduce(
+        (acc: bigint, i: any) => acc + BigInt(i.amount),
+        0n
       );
-      expect(transferLogs.length).toBeGreaterThan(0);
+      // Fees are paid on top of the requested output
+      expect(inputTotal).toBeGreaterThan(parseUnits("5", 6));
+      expect(route.cost.fees.breakdown.bridge.usd).toBeGreaterThan(0);
 
-      const decoded = decodeEventLog({
-        abi: erc20Abi,
-        data: transferLogs[0].data,
-        topics: transferLogs[0].topics,
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: {
+          origin: [MOCK_ORIGIN_SIG, MOCK_ORIGIN_SIG],
+          destination: MOCK_DEST_SIG,
+        },
       });
-      expect(decoded.eventName).toBe("Transfer");
-      expect((decoded.args as any).to.toLowerCase()).toBe(
-        USER_ADDRESS.toLowerCase()
-      );
+
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+      expect(status.claims).toHaveLength(2);
+      for (const claim of status.claims) {
+        expect(claim.status).toBe("COMPLETED");
+      }
     });
   });
 
-  describe("Quote response shape", () => {
-    it("should include full route metadata with CAIP-2 cost and fee breakdown", async () => {
-      const amount = parseUnits("10", 6);
-      const before = Math.floor(Date.now() / 1000);
-
+  describe("Intent lifecycle", () => {
+    it("should accept the intent as PENDING and progress to COMPLETED", async () => {
       const quoteResponse = await apiCall<any>("POST", "/quotes", {
         destinationChainId: BASE_SEPOLIA_CAIP2,
         tokenRequests: [
-          { tokenAddress: USDC_BASE_SEPOLIA, amount: amount.toString() },
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("1", 6).toString(),
+          },
         ],
         account: { address: USER_ADDRESS },
         accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
       });
-
-      expect(quoteResponse.routes).toHaveLength(1);
       const route = quoteResponse.routes[0];
 
-      expect(route.expiresAt).toBeGreaterThan(before);
-      expect(route.estimatedFillTime?.seconds).toBeGreaterThanOrEqual(0);
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
 
-      expect(Array.isArray(route.cost.input)).toBe(true);
-      expect(Array.isArray(route.cost.output)).toBe(true);
-      for (const leg of [...route.cost.input, ...route.cost.output]) {
-        expect(leg.chainId).toMatch(/^eip155:\d+$/);
-        expect(typeof leg.tokenAddress).toBe("string");
-        expect(typeof leg.amount).toBe("string");
-      }
+      const initial = await apiCall<any>("GET", `/intents/${route.intentId}`);
+      expect(["PENDING", "PRECONFIRMED"]).toContain(initial.status);
+      expect(initial.fillTransactionHash).toBeUndefined();
 
-      expect(route.cost.fees.total).toHaveProperty("usd");
-      const breakdown = route.cost.fees.breakdown;
-      for (const key of ["gas", "bridge", "protocol", "swap", "settlement"]) {
-        expect(breakdown[key]).toHaveProperty("usd");
-      }
+      const filled = await waitForIntentStatus(route.intentId, [
+        "FILLED",
+        ...TERMINAL_STATUSES,
+      ]);
+      expect(["FILLED", "COMPLETED"]).toContain(filled.status);
+      expect(filled.fillTransactionHash).toBeDefined();
 
-      expect(Array.isArray(route.signData.origin)).toBe(true);
-      expect(route.signData.destination).toHaveProperty("primaryType");
+      const completed = await waitForIntentStatus(route.intentId);
+      expect(completed.status).toBe("COMPLETED");
     });
   });
 
-  describe("Recipient routing", () => {
-    it("should land funds at recipient.address rather than account.address", async () => {
-      const recipient = "0x000000000000000000000000000000000000beef" as Address;
-      const amount = parseUnits("7", 6);
-
-      const publicClient = createPublicClient({
-        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
-      });
-      const before = await publicClient.readContract({
-        address: USDC_BASE_SEPOLIA as Address,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [recipient],
-      });
-
+  describe("Destination gas limit", () => {
+    const submitWithGasLimit = async (destinationGasLimit: string) => {
       const quoteResponse = await apiCall<any>("POST", "/quotes", {
         destinationChainId: BASE_SEPOLIA_CAIP2,
         tokenRequests: [
-          { tokenAddress: USDC_BASE_SEPOLIA, amount: amount.toString() },
+          { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
         ],
         account: { address: USER_ADDRESS },
-        recipient: { address: recipient },
         accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        destinationGasLimit,
       });
-
       const route = quoteResponse.routes[0];
       await apiCall<any>("POST", "/intents", {
         intentId: route.intentId,
         signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
       });
+      return route.intentId;
+    };
 
-      const after = await publicClient.readContract({
-        address: USDC_BASE_SEPOLIA as Address,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [recipient],
+    it("should fill with the requested gas limit and report the gas used", async () => {
+      const intentId = await submitWithGasLimit("500000");
+      expect((await waitForIntentStatus(intentId)).status).toBe("COMPLETED");
+
+      const full = await apiCall<any>("GET", `/intents/${intentId}?full=true`);
+      expect(full.fillGas.limit).toBe("500000");
+      expect(BigInt(full.fillGas.used)).toBeGreaterThan(0n);
+      expect(BigInt(full.fillGas.used)).toBeLessThanOrEqual(500000n);
+      expect(full.fillGas.effectiveGasPrice).toMatch(/^\d+$/);
+
+      const minimal = await apiCall<any>("GET", `/intents/${intentId}`);
+      expect(minimal.fillGas).toBeUndefined();
+    });
+
+    it("should fail the fill when the gas limit is too low", async () => {
+      const intentId = await submitWithGasLimit("30000");
+      const status = await waitForIntentStatus(intentId);
+      expect(status.status).toBe("FAILED");
+
+      const full = await apiCall<any>("GET", `/intents/${intentId}?full=true`);
+      expect(full.failure.stage).toBe("fill");
+      expect(full.failure.reason).toContain("out of gas");
+    });
+  });
+
+  describe("Full intent view", () => {
+    it("should return the plan, transactions and timeline of a cross-chain intent", async () => {
+      const amount = parseUnits("1", 6).toString();
+      const route = (
+        await apiCall<any>("POST", "/quotes", {
+          destinationChainId: SEPOLIA_CAIP2,
+          tokenRequests: [{ tokenAddress: USDC_SEPOLIA, amount }],
+          account: { address: USER_ADDRESS },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        })
+      ).routes[0];
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
       });
-      expect(after - before).toBe(amount);
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+      expect(status.plan).toBeUndefined();
+
+      const full = await apiCall<any>("GET", `/intents/${route.intentId}?full=true`);
+      expect(full.plan.settlementLayer).toBe(route.settlementLayer);
+      expect(full.plan.nonce).toBe(route.intentId);
+      expect(full.plan.tokenRequests).toEqual([{ tokenAddress: USDC_SEPOLIA, amount }]);
+      expect(full.plan.inputs[0].chainId).toBe(BASE_SEPOLIA_CAIP2);
+
+      expect(full.transactions[BASE_SEPOLIA_CAIP2].map((tx: any) => tx.stage)).toEqual(["claim"]);
+      expect(full.transactions[BASE_SEPOLIA_CAIP2][0].hash).toBe(status.claims[0].claimTransactionHash);
+      const fills = full.transactions[SEPOLIA_CAIP2];
+      expect(fills[fills.length - 1]).toEqual({ stage: "fill", hash: status.fillTransactionHash });
+
+      expect(full.timeline.map((t: any) => t.status)).toEqual([
+        "PENDING",
+        "PRECONFIRMED",
+        "CLAIMED",
+        "FILLED",
+        "COMPLETED",
+      ]);
+      const timestamps = full.timeline.map((t: any) => t.timestamp);
+      expect([...timestamps].sort((a, b) => a - b)).toEqual(timestamps);
+      expect(full.failure).toBeUndefined();
     });
   });
 
-  describe("Multi-token tokenRequests", () => {
-    it("should fulfil USDC and native ETH in a single quote", async () => {
-      const recipient = "0x000000000000000000000000000000000000c0de" as Address;
-      const usdcAmount = parseUnits("3", 6);
-      const ethAmount = parseUnits("0.0005", 18);
+  describe("Failure injection", () => {
+    const FAILING_ACCOUNT = "0x00000000000000000000000000000000000fa11e";
 
-      const publicClient = createPublicClient({
-        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+    afterEach(async () => {
+      await fetch(`${API_BASE_URL}/admin/failures`, {
+        method: "DELETE",
+        headers,
       });
-      const usdcBefore = await publicClient.readContract({
-        address: USDC_BASE_SEPOLIA as Address,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [recipient],
+    });
+
+    const quoteFor = (account: string) =>
+      fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            {
+              tokenAddress: USDC_BASE_SEPOLIA,
+              amount: parseUnits("1", 6).toString(),
+            },
+          ],
+          account: { address: account },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        }),
+      });
+
+    it("should force the configured error code on matching quotes", async () => {
+      await apiCall<any>("POST", "/admin/failures", {
+        on: ["quote"],
+        match: { account: FAILING_ACCOUNT, token: "USDC" },
+        error: { code: "RELAYER_MARKET_UNAVAILABLE" },
+      });
+
+      const response = await quoteFor(FAILING_ACCOUNT);
+      expect(response.status).toBe(503);
+      const body = await response.json();
+      expect(body.code).toBe("RELAYER_MARKET_UNAVAILABLE");
+
+      const unaffected = await quoteFor(USER_ADDRESS);
+      expect(unaffected.status).toBe(200);
+    });
+
+    it("should let a submitted intent end up FAILED", async () => {
+      await apiCall<any>("POST", "/admin/failures", {
+        on: ["intent"],
+        match: { account: USER_ADDRESS, minAmount: "424242", maxAmount: "424242" },
+        intentStatus: "FAILED",
+        times: 1,
       });
-      const ethBefore = await publicClient.getBalance({ address: recipient });
 
       const quoteResponse = await apiCall<any>("POST", "/quotes", {
         destinationChainId: BASE_SEPOLIA_CAIP2,
-        tokenRequests: [
-          { tokenAddress: USDC_BASE_SEPOLIA, amount: usdcAmount.toString() },
-          {
-            tokenAddress: "0x0000000000000000000000000000000000000000",
-            amount: ethAmount.toString(),
-          },
-        ],
+        tokenRequests: [{ tokenAddress: USDC_BASE_SEPOLIA, amount: "424242" }],
         account: { address: USER_ADDRESS },
-        recipient: { address: recipient },
         accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
       });
-
       const route = quoteResponse.routes[0];
+
       await apiCall<any>("POST", "/intents", {
         intentId: route.intentId,
         signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
       });
 
-      const usdcAfter = await publicClient.readContract({
-        address: USDC_BASE_SEPOLIA as Address,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [recipient],
-      });
-      const ethAfter = await publicClient.getBalance({ address: recipient });
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("FAILED");
+      expect(status.fillTransactionHash).toBeUndefined();
 
-      expect(usdcAfter - usdcBefore).toBe(usdcAmount);
-      expect(ethAfter - ethBefore).toBe(ethAmount);
+      const rules = await apiCall<any>("GET", "/admin/failures");
+      expect(rules.rules).toHaveLength(0);
     });
   });
 
-  describe("Submit unknown intentId", () => {
-    it("should 404 with NOT_FOUND when intentId was never quoted", async () => {
-      const response = await fetch(`${API_BASE_URL}/intents`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          intentId: "999999999999999999999",
-          signatures: {
-            origin: [MOCK_ORIGIN_SIG],
-            destination: MOCK_DEST_SIG,
-          },
-        }),
+  describe("Competing routes", () => {
+    const crossChainQuote = (options?: Record<string, unknown>) =>
+      apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: parseUnits("10", 6).toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        options,
       });
 
-      expect(response.status).toBe(404);
-      const body = await response.json();
-      expect(body.code).toBe("NOT_FOUND");
-      expect(body.traceId).toBeDefined();
+    it("should return one route per settlement layer with its own intentId", async () => {
+      const { routes } = await crossChainQuote();
+      expect(routes.length).toBeGreaterThan(1);
+      expect(routes[0].settlementLayer).toBe("ACROSS");
+      expect(new Set(routes.map((r: any) => r.intentId)).size).toBe(routes.length);
+      expect(new Set(routes.map((r: any) => r.settlementLayer)).size).toBe(routes.length);
     });
-  });
 
-  describe("Portfolio query filters", () => {
+    it("should filter by the requested settlement layers", async () => {
+      const { routes } = await crossChainQuote({ settlementLayers: ["RELAY", "CCTP"] });
+      expect(routes.map((r: any) => r.settlementLayer).sort()).toEqual(["CCTP", "RELAY"]);
+    });
+
+    it("should filter same-chain routes by the requested settlement layers", async () => {
+      const sameChainQuote = (settlementLayers?: string[]) =>
+        fetch(`${API_BASE_URL}/quotes`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            destinationChainId: BASE_SEPOLIA_CAIP2,
+            tokenRequests: [
+              { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
+            ],
+            account: { address: USER_ADDRESS },
+            accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+            options: { settlementLayers },
+          }),
+        });
+
+      const refused = await sameChainQuote(["ACROSS"]);
+      expect(refused.status).toBe(400);
+      const body = await refused.json();
+      expect(body.code).toBe("VALIDATION_ERROR");
+      expect(body.details.available).toEqual(["INTENT_EXECUTOR"]);
+
+      const accepted = await sameChainQuote();
+      expect(accepted.status).toBe(200);
+      const { routes } = await accepted.json();
+      expect(routes.map((r: any) => r.settlementLayer)).toEqual(["INTENT_EXECUTOR"]);
+    });
+
+    it("should order routes by the selection strategy", async () => {
+      const fastest = (await crossChainQuote({ selectionStrategy: "fastest" })).routes;
+      const fillTimes = fastest.map((r: any) => r.estimatedFillTime.seconds);
+      expect(fillTimes).toEqual([...fillTimes].sort((a, b) => a - b));
+
+      const cheapest = (await crossChainQuote({ selectionStrategy: "cheapest" })).routes;
+      const costs = cheapest.map((r: any) => r.cost.fees.total.usd);
+      expect(costs).toEqual([...costs].sort((a, b) => a - b));
+    });
+
+    it("should attach layer specific bridgeFill data", async () => {
+      const { routes } = await crossChainQuote({
+        settlementLayers: ["RELAY", "NEAR", "RHINO", "CCTP", "OFT"],
+      });
+      const fill = (layer: string) =>
+        routes.find((r: any) => r.settlementLayer === layer).bridgeFill;
+
+      expect(fill("RELAY").requestId).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(fill("NEAR").depositAddress).toMatch(/^0x[0-9a-fA-F]{40}$/);
+      expect(fill("RHINO").commitmentId).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(fill("CCTP")).toMatchObject({
+        type: "CCTP",
+        destinationChainId: SEPOLIA_CAIP2,
+        sourceDomainId: 6,
+        destinationDomainId: 0,
+      });
+      expect(fill("OFT")).toEqual({ type: "OFT", destinationChainId: SEPOLIA_CAIP2 });
+    });
+
+    it("should settle bridge routes through the layer specific timings", async () => {
+      const { routes } = await crossChainQuote({ settlementLayers: ["CCTP"] });
+      const route = routes[0];
+
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      // CCTP waits for the attestation while PRECONFIRMED
+      const attesting = await waitForIntentStatus(route.intentId, ["PRECONFIRMED"]);
+      expect(attesting.status).toBe("PRECONFIRMED");
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+    });
+
+    it("should execute the submitted route and invalidate its siblings", async () => {
+      const { routes } = await crossChainQuote({ settlementLayers: ["ACROSS", "RELAY"] });
+      const relay = routes.find((r: any) => r.settlementLayer === "RELAY");
+      const across = routes.find((r: any) => r.settlementLayer === "ACROSS");
+
+      await apiCall<any>("POST", "/intents", {
+        intentId: relay.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      const status = await waitForIntentStatus(relay.intentId);
+      expect(status.status).toBe("COMPLETED");
+
+      const response = await fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          intentId: across.intentId,
+          signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+        }),
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Pre-claim executions", () => {
+    const transferCall = (to: Address, amount: bigint) => ({
+      to: USDC_BASE_SEPOLIA,
+      value: "0",
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [to, amount],
+      }),
+    });
+
+    const submitWithPreClaim = async (ops: ReturnType<typeof transferCall>[]) => {
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: parseUnits("1", 6).toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        preClaimExecutions: { [BASE_SEPOLIA_CAIP2]: ops },
+      });
+      const route = quoteResponse.routes[0];
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      return { intentId: route.intentId, ...(await waitForIntentStatus(route.intentId)) };
+    };
+
+    it("should run the executions on the origin chain before the claim", async () => {
+      const target = privateKeyToAccount(generatePrivateKey()).address;
+      const status = await submitWithPreClaim([transferCall(target, 123n)]);
+      expect(status.status).toBe("COMPLETED");
+
+      const balance = await createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      }).readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [target],
+      });
+      expect(balance).toBe(123n);
+    });
+
+    it("should fail the intent when an execution reverts", async () => {
+      const target = privateKeyToAccount(generatePrivateKey()).address;
+      const status = await submitWithPreClaim([transferCall(target, maxUint256)]);
+      expect(status.status).toBe("FAILED");
+      expect(status.claims[0].status).toBe("FAILED");
+      expect(status.claims[0].claimTransactionHash).toBeUndefined();
+
+      const full = await apiCall<any>("GET", `/intents/${status.intentId}?full=true`);
+      expect(full.failure.stage).toBe("preClaim");
+      expect(full.failure.chainId).toBe(BASE_SEPOLIA_CAIP2);
+      expect(full.failure.index).toBe(0);
+      expect(full.failure.reason).toBeTruthy();
+    });
+
+    it("should reject a quote whose simulation reverts when mockSignatures are given", async () => {
+      const target = privateKeyToAccount(generatePrivateKey()).address;
+      const quote = (amount: bigint) =>
+        fetch(`${API_BASE_URL}/quotes`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            destinationChainId: SEPOLIA_CAIP2,
+            tokenRequests: [
+              { tokenAddress: USDC_SEPOLIA, amount: parseUnits("1", 6).toString() },
+            ],
+            account: {
+              address: USER_ADDRESS,
+              mockSignatures: { [SEPOLIA_CAIP2]: MOCK_DEST_SIG },
+            },
+            accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+            preClaimExecutions: {
+              [BASE_SEPOLIA_CAIP2]: [transferCall(target, amount)],
+            },
+          }),
+        });
+
+      expect((await quote(1n)).status).toBe(200);
+
+      const response = await quote(maxUint256);
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.code).toBe("SETTLEMENT_QUOTE_ERROR");
+      expect(body.details.stage).toBe("preClaim");
+      expect(body.details.chainId).toBe(BASE_SEPOLIA_CAIP2);
+      expect(body.details.reason.length).toBeGreaterThan(0);
+    });
+
+    it("should reject executions for a chain the route does not source from", async () => {
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          destinationChainId: SEPOLIA_CAIP2,
+          tokenRequests: [
+            { tokenAddress: USDC_SEPOLIA, amount: parseUnits("1", 6).toString() },
+          ],
+          account: { address: USER_ADDRESS },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+          preClaimExecutions: {
+            [SEPOLIA_CAIP2]: [transferCall(USER_ADDRESS, 1n)],
+          },
+        }),
+      });
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.code).toBe("VALIDATION_ERROR");
+      expect(body.details.originChainIds).toEqual([BASE_SEPOLIA_CAIP2]);
+    });
+  });
+
+  describe("EIP-7702 authorizations", () => {
+    // Any deployed contract will do as the delegate, the test only checks the designation
+    const DELEGATE = "0x8a525dc484f893ca64fef507746ebd5036eec256" as Address;
+
+    const signedAuthorization = async (chainId: number) => {
+      const eoa = privateKeyToAccount(generatePrivateKey());
+      const auth = await eoa.signAuthorization({
+        chainId,
+        nonce: 0,
+        contractAddress: DELEGATE,
+      });
+      return {
+        eoa: eoa.address,
+        authorization: {
+          chainId: `eip155:${auth.chainId}`,
+          address: auth.address,
+          nonce: auth.nonce,
+          yParity: auth.yParity,
+          r: auth.r,
+          s: auth.s,
+        },
+      };
+    };
+
+    const quoteTo = async (recipient: Address) =>
+      (
+        await apiCall<any>("POST", "/quotes", {
+          destinationChainId: SEPOLIA_CAIP2,
+          tokenRequests: [
+            { tokenAddress: USDC_SEPOLIA, amount: parseUnits("1", 6).toString() },
+          ],
+          account: { address: USER_ADDRESS },
+          recipient: { address: recipient },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        })
+      ).routes[0];
+
+    it("should delegate the recipient's code alongside the fill", async () => {
+      const { eoa, authorization } = await signedAuthorization(SEPOLIA_CHAIN_ID);
+      const route = await quoteTo(eoa);
+
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+        authorizations: { recipient: [authorization] },
+      });
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+
+      const code = await createPublicClient({
+        transport: http(RPC_URLS[SEPOLIA_CHAIN_ID]),
+      }).getCode({ address: eoa });
+      expect(code?.toLowerCase()).toBe(`0xef0100${DELEGATE.slice(2)}`.toLowerCase());
+    });
+
+    it("should reject authorizations for chains the intent does not use", async () => {
+      const { eoa, authorization } = await signedAuthorization(1);
+      const route = await quoteTo(eoa);
+
+      const response = await fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          intentId: route.intentId,
+          signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+          authorizations: { recipient: [authorization] },
+        }),
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Account types", () => {
+    const DELEGATE = "0x8a525dc484f893ca64fef507746ebd5036eec256" as Address;
+
+    it("should reject destination executions for an undelegated EOA", async () => {
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
+          ],
+          account: {
+            address: privateKeyToAccount(generatePrivateKey()).address,
+            accountType: "EOA",
+          },
+          destinationExecutions: [
+            { to: USDC_BASE_SEPOLIA, value: "0", data: "0x" },
+          ],
+        }),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("should require the account's authorization for requested delegations", async () => {
+      const eoa = privateKeyToAccount(generatePrivateKey());
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: eoa.address,
+            token: "USDC",
+            amount: parseUnits("2", 6).toString(),
+          },
+        ],
+      });
+      await apiCall<any>("POST", "/admin/approve", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            owner: eoa.address,
+            spender: PERMIT2,
+            token: "USDC",
+            amount: parseUnits("2", 6).toString(),
+          },
+        ],
+      });
+
+      const route = (
+        await apiCall<any>("POST", "/quotes", {
+          destinationChainId: SEPOLIA_CAIP2,
+          tokenRequests: [
+            { tokenAddress: USDC_SEPOLIA, amount: parseUnits("1", 6).toString() },
+          ],
+          account: {
+            address: eoa.address,
+            accountType: "EOA",
+            delegations: { [SEPOLIA_CAIP2]: { contract: DELEGATE } },
+          },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        })
+      ).routes[0];
+
+      const submit = (authorizations?: object) =>
+        fetch(`${API_BASE_URL}/intents`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            intentId: route.intentId,
+            signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+            authorizations,
+          }),
+        });
+
+      const refused = await submit();
+      expect(refused.status).toBe(422);
+      expect((await refused.json()).code).toBe("UNPROCESSABLE_CONTENT");
+
+      const auth = await eoa.signAuthorization({
+        chainId: SEPOLIA_CHAIN_ID,
+        nonce: 0,
+        contractAddress: DELEGATE,
+      });
+      const accepted = await submit({
+        recipient: [
+          {
+            chainId: SEPOLIA_CAIP2,
+            address: auth.address,
+            nonce: auth.nonce,
+            yParity: auth.yParity,
+            r: auth.r,
+            s: auth.s,
+          },
+        ],
+      });
+      expect(accepted.status).toBe(201);
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+
+      const code = await createPublicClient({
+        transport: http(RPC_URLS[SEPOLIA_CHAIN_ID]),
+      }).getCode({ address: eoa.address });
+      expect(code?.toLowerCase()).toBe(`0xef0100${DELEGATE.slice(2)}`.toLowerCase());
+    });
+
+    it("should fill a delegated EOA through the intent executor", async () => {
+      const eoa = privateKeyToAccount(generatePrivateKey()).address;
+      await createTestClient({
+        mode: "anvil",
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      }).setCode({ address: eoa, bytecode: `0xef0100${DELEGATE.slice(2)}` });
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: eoa,
+            token: "USDC",
+            amount: parseUnits("2", 6).toString(),
+          },
+        ],
+      });
+
+      const executionFlow = async (accountType: string) => {
+        const route = (
+          await apiCall<any>("POST", "/quotes", {
+            destinationChainId: BASE_SEPOLIA_CAIP2,
+            tokenRequests: [
+              { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
+            ],
+            account: { address: eoa, accountType },
+            accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+          })
+        ).routes[0];
+        await apiCall<any>("POST", "/intents", {
+          intentId: route.intentId,
+          signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+        });
+        const full = await apiCall<any>("GET", `/intents/${route.intentId}?full=true`);
+        await waitForIntentStatus(route.intentId);
+        return full.plan.executionFlow;
+      };
+
+      expect(await executionFlow("GENERIC")).toBe("fakeRouter");
+      expect(await executionFlow("EOA")).toBe("intentExecutor");
+    });
+  });
+
+  describe("Token requirements", () => {
+    it("should require an approval and refuse submission until it is given", async () => {
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "USDC",
+            amount: parseUnits("10", 6).toString(),
+          },
+        ],
+      });
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: parseUnits("5", 6).toString() },
+        ],
+        account: { address: account },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+      const route = quoteResponse.routes[0];
+      const requirement =
+        route.tokenRequirements[BASE_SEPOLIA_CAIP2][USDC_BASE_SEPOLIA];
+      expect(requirement.type).toBe("approval");
+      expect(requirement.spender.toLowerCase()).toBe(PERMIT2.toLowerCase());
+      expect(requirement.amount).toBe(route.cost.input[0].amount);
+
+      const submit = () =>
+        fetch(`${API_BASE_URL}/intents`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            intentId: route.intentId,
+            signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+          }),
+        });
+
+      const refused = await submit();
+      expect(refused.status).toBe(422);
+      expect((await refused.json()).code).toBe("UNPROCESSABLE_CONTENT");
+
+      await apiCall<any>("POST", "/admin/approve", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            owner: account,
+            spender: PERMIT2,
+            token: "USDC",
+            amount: requirement.amount,
+          },
+        ],
+      });
+      const accepted = await submit();
+      expect(accepted.status).toBe(201);
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+    });
+
+    it("should not emit requirements for same-chain routes", async () => {
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+      expect(quoteResponse.routes[0].tokenRequirements).toBeUndefined();
+    });
+  });
+
+  describe("Fee sponsorship", () => {
+    it("should zero sponsored fee components", async () => {
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: parseUnits("10", 6).toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        options: { sponsorSettings: { gas: true, bridgeFees: true } },
+      });
+
+      const breakdown = quoteResponse.routes[0].cost.fees.breakdown;
+      expect(breakdown.gas).toEqual({ usd: 0, sponsored: true });
+      expect(breakdown.bridge).toEqual({ usd: 0, sponsored: true });
+      expect(breakdown.protocol.usd).toBeGreaterThan(0);
+      expect(breakdown.protocol.sponsored).toBeUndefined();
+    });
+
+    it("should charge and pull the fee in the selected fee token", async () => {
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "USDC",
+            amount: parseUnits("10", 6).toString(),
+          },
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "ETH",
+            amount: parseUnits("1", 18).toString(),
+          },
+        ],
+      });
+      await apiCall<any>("POST", "/admin/approve", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            owner: account,
+            spender: PERMIT2,
+            token: "USDC",
+            amount: parseUnits("10", 6).toString(),
+          },
+        ],
+      });
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: parseUnits("5", 6).toString() },
+        ],
+        account: { address: account },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        options: { feeToken: "ETH" },
+      });
+
+      const route = quoteResponse.routes[0];
+      expect(route.cost.input).toHaveLength(2);
+      const [input, fee] = route.cost.input;
+      expect(BigInt(input.amount)).toBe(parseUnits("5", 6));
+      expect(fee.symbol).toBe("ETH");
+      expect(BigInt(fee.amount)).toBeGreaterThan(0n);
+
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      const status = await waitForIntentStatus(route.intentId);
+      expect(status.status).toBe("COMPLETED");
+
+      const ethBalance = await createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      }).getBalance({ address: account });
+      expect(ethBalance).toBe(parseUnits("1", 18) - BigInt(fee.amount));
+    });
+  });
+
+  describe("Cross-chain Intent Flow", () => {
+    it("should quote and execute cross-chain USDC transfer (Base Sepolia → Sepolia)", async () => {
+      const transferAmount = parseUnits("50", 6);
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_SEPOLIA, amount: transferAmount.toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+
+      const route = quoteResponse.routes[0];
+      expect(route.settlementLayer).toBe("ACROSS");
+
+      const originClient = createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      });
+      const originBalance = () =>
+        originClient.readContract({
+          address: USDC_BASE_SEPOLIA as Address,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [USER_ADDRESS],
+        });
+      const originBefore = await originBalance();
+
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: {
+          origin: [MOCK_ORIGIN_SIG],
+          destination: MOCK_DEST_SIG,
+        },
+      });
+
+      const statusResponse = await waitForIntentStatus(route.intentId);
+
+      expect(statusResponse.status).toBe("COMPLETED");
+      expect(statusResponse.destinationChainId).toBe(SEPOLIA_CAIP2);
+
+      expect(statusResponse.claims).toHaveLength(1);
+      const claim = statusResponse.claims[0];
+      expect(claim.chainId).toBe(BASE_SEPOLIA_CAIP2);
+      expect(claim.status).toBe("COMPLETED");
+      expect(claim.claimTimestamp).toBeGreaterThan(0);
+
+      const claimReceipt = await originClient.getTransactionReceipt({
+        hash: claim.claimTransactionHash as Hex,
+      });
+      expect(claimReceipt.status).toBe("success");
+      const inputAmount = BigInt(route.cost.input[0].amount);
+      expect(inputAmount).toBeGreaterThan(transferAmount);
+      expect(originBefore - (await originBalance())).toBe(inputAmount);
+
+      const publicClient = createPublicClient({
+        transport: http(RPC_URLS[SEPOLIA_CHAIN_ID]),
+      });
+      const receipt = await publicClient.getTransactionReceipt({
+        hash: statusResponse.fillTransactionHash as Hex,
+      });
+      expect(receipt.status).toBe("success");
+
+      const transferLogs = receipt.logs.filter(
+        (log) => log.address.toLowerCase() === USDC_SEPOLIA.toLowerCase()
+      );
+      expect(transferLogs.length).toBeGreaterThan(0);
+
+      const decoded = decodeEventLog({
+        abi: erc20Abi,
+        data: transferLogs[0].data,
+        topics: transferLogs[0].topics,
+      });
+      expect(decoded.eventName).toBe("Transfer");
+      expect((decoded.args as any).to.toLowerCase()).toBe(
+        USER_ADDRESS.toLowerCase()
+      );
+    });
+  });
+
+  describe("Quote response shape", () => {
+    it("should include full route metadata with CAIP-2 cost and fee breakdown", async () => {
+      const amount = parseUnits("10", 6);
+      const before = Math.floor(Date.now() / 1000);
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_BASE_SEPOLIA, amount: amount.toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+
+      expect(quoteResponse.routes).toHaveLength(1);
+      const route = quoteResponse.routes[0];
+
+      expect(route.expiresAt).toBeGreaterThan(before);
+      expect(route.estimatedFillTime?.seconds).toBeGreaterThanOrEqual(0);
+
+      expect(Array.isArray(route.cost.input)).toBe(true);
+      expect(Array.isArray(route.cost.output)).toBe(true);
+      for (const leg of [...route.cost.input, ...route.cost.output]) {
+        expect(leg.chainId).toMatch(/^eip155:\d+$/);
+        expect(typeof leg.tokenAddress).toBe("string");
+        expect(typeof leg.amount).toBe("string");
+      }
+
+      expect(route.cost.fees.total).toHaveProperty("usd");
+      const breakdown = route.cost.fees.breakdown;
+      for (const key of ["gas", "bridge", "protocol", "swap", "settlement"]) {
+        expect(breakdown[key]).toHaveProperty("usd");
+      }
+      expect(route.cost.fees.total.usd).toBeGreaterThan(0);
+
+      const output = route.cost.output[0];
+      expect(output.symbol).toBe("USDC");
+      expect(output.decimals).toBe(6);
+      expect(output.price.usd).toBe(1);
+      const input = route.cost.input[0];
+      expect(BigInt(input.amount)).toBeGreaterThan(amount);
+
+      expect(Array.isArray(route.signData.origin)).toBe(true);
+      expect(route.signData.destination).toHaveProperty("primaryType");
+    });
+  });
+
+  describe("Recipient routing", () => {
+    it("should land funds at recipient.address rather than account.address", async () => {
+      const recipient = "0x000000000000000000000000000000000000beef" as Address;
+      const amount = parseUnits("7", 6);
+
+      const publicClient = createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      });
+      const before = await publicClient.readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [recipient],
+      });
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_BASE_SEPOLIA, amount: amount.toString() },
+        ],
+        account: { address: USER_ADDRESS },
+        recipient: { address: recipient },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+
+      const route = quoteResponse.routes[0];
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      await waitForIntentStatus(route.intentId);
+
+      const after = await publicClient.readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [recipient],
+      });
+      expect(after - before).toBe(amount);
+    });
+  });
+
+  describe("Multi-token tokenRequests", () => {
+    it("should fulfil USDC and native ETH in a single quote", async () => {
+      const recipient = "0x000000000000000000000000000000000000c0de" as Address;
+      const usdcAmount = parseUnits("3", 6);
+      const ethAmount = parseUnits("0.0005", 18);
+
+      const publicClient = createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      });
+      const usdcBefore = await publicClient.readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [recipient],
+      });
+      const ethBefore = await publicClient.getBalance({ address: recipient });
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          { tokenAddress: USDC_BASE_SEPOLIA, amount: usdcAmount.toString() },
+          {
+            tokenAddress: "0x0000000000000000000000000000000000000000",
+            amount: ethAmount.toString(),
+          },
+        ],
+        account: { address: USER_ADDRESS },
+        recipient: { address: recipient },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+
+      const route = quoteResponse.routes[0];
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      await waitForIntentStatus(route.intentId);
+
+      const usdcAfter = await publicClient.readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [recipient],
+      });
+      const ethAfter = await publicClient.getBalance({ address: recipient });
+
+      expect(usdcAfter - usdcBefore).toBe(usdcAmount);
+      expect(ethAfter - ethBefore).toBe(ethAmount);
+    });
+  });
+
+  describe("Submit unknown intentId", () => {
+    it("should 404 with NOT_FOUND when intentId was never quoted", async () => {
+      const response = await fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          intentId: "999999999999999999999",
+          signatures: {
+            origin: [MOCK_ORIGIN_SIG],
+            destination: MOCK_DEST_SIG,
+          },
+        }),
+      });
+
+      expect(response.status).toBe(404);
+      const body = await response.json();
+      expect(body.code).toBe("NOT_FOUND");
+      expect(body.traceId).toBeDefined();
+    });
+  });
+
+  describe("Single-use quotes", () => {
+    it("should reject a second submission of the same intentId with CONFLICT", async () => {
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("1", 6).toString(),
+          },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+      const route = quoteResponse.routes[0];
+      const submission = {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      };
+
+      await apiCall<any>("POST", "/intents", submission);
+
+      const response = await fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(submission),
+      });
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.code).toBe("CONFLICT");
+
+      await waitForIntentStatus(route.intentId);
+    });
+
+    it("should accept only one of two concurrent submissions", async () => {
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("1", 6).toString(),
+          },
+        ],
+        account: { address: USER_ADDRESS },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+      const route = quoteResponse.routes[0];
+      const submit = () =>
+        fetch(`${API_BASE_URL}/intents`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            intentId: route.intentId,
+            signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+          }),
+        });
+
+      const responses = await Promise.all([submit(), submit()]);
+      expect(responses.map((r) => r.status).sort()).toEqual([201, 409]);
+
+      await waitForIntentStatus(route.intentId);
+    });
+  });
+
+  describe("Quote expiry", () => {
+    afterEach(async () => {
+      await fetch(`${API_BASE_URL}/admin/quotes/ttl`, { method: "DELETE", headers });
+    });
+
+    it("should only accept whole-second TTLs", async () => {
+      const response = await fetch(`${API_BASE_URL}/admin/quotes/ttl`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ ttlSeconds: 0.5 }),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("should refuse an expired quote as expired after the sweeper ran", async () => {
+      await apiCall<any>("POST", "/admin/quotes/ttl", { ttlSeconds: 1 });
+      const route = (
+        await apiCall<any>("POST", "/quotes", {
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            {
+              tokenAddress: USDC_BASE_SEPOLIA,
+              amount: parseUnits("1", 6).toString(),
+            },
+          ],
+          account: { address: USER_ADDRESS },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        })
+      ).routes[0];
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      await apiCall<any>("POST", "/admin/quotes/sweep");
+
+      const response = await fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          intentId: route.intentId,
+          signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+        }),
+      });
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.code).toBe("UNPROCESSABLE_CONTENT");
+      expect(body.message).toContain("expired");
+
+      const status = await apiCall<any>("GET", `/intents/${route.intentId}`);
+      expect(status.status).toBe("EXPIRED");
+    });
+  });
+
+  describe("Strict signatures", () => {
+    // Runtime code that answers every call with the ERC-1271 magic value 0x1626ba7e
+    const ERC1271_ACCEPT_ALL = "0x631626ba7e60e01b60005260206000f3" as Hex;
+
+    afterEach(async () => {
+      await fetch(`${API_BASE_URL}/admin/signatures/strict`, { method: "DELETE", headers });
+    });
+
+    const quoteFor = async (account: Address) => {
+      await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "USDC",
+            amount: parseUnits("2", 6).toString(),
+          },
+        ],
+      });
+      await apiCall<any>("POST", "/admin/signatures/strict", { strict: true });
+      return (
+        await apiCall<any>("POST", "/quotes", {
+          destinationChainId: BASE_SEPOLIA_CAIP2,
+          tokenRequests: [
+            { tokenAddress: USDC_BASE_SEPOLIA, amount: parseUnits("1", 6).toString() },
+          ],
+          account: { address: account },
+          accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+        })
+      ).routes[0];
+    };
+
+    const submit = (intentId: string, origin: Hex[], destination: Hex) =>
+      fetch(`${API_BASE_URL}/intents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ intentId, signatures: { origin, destination } }),
+      });
+
+    it("should accept signatures of the account over the quoted typed data", async () => {
+      const eoa = privateKeyToAccount(generatePrivateKey());
+      const route = await quoteFor(eoa.address);
+
+      const origin = await Promise.all(route.signData.origin.map((typed: any) => eoa.signTypedData(typed)));
+      const destination = await eoa.signTypedData(route.signData.destination);
+      const response = await submit(route.intentId, origin, destination);
+      expect(response.status).toBe(201);
+
+      await waitForIntentStatus(route.intentId);
+    });
+
+    it("should refuse signatures of another key with UNAUTHORIZED", async () => {
+      const eoa = privateKeyToAccount(generatePrivateKey());
+      const other = privateKeyToAccount(generatePrivateKey());
+      const route = await quoteFor(eoa.address);
+
+      const origin = await Promise.all(route.signData.origin.map((typed: any) => other.signTypedData(typed)));
+      const destination = await other.signTypedData(route.signData.destination);
+      const response = await submit(route.intentId, origin, destination);
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe("UNAUTHORIZED");
+    });
+
+    it("should accept an ERC-1271 account that approves the signature", async () => {
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      await createTestClient({
+        mode: "anvil",
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      }).setCode({ address: account, bytecode: ERC1271_ACCEPT_ALL });
+      const route = await quoteFor(account);
+
+      const origin = route.signData.origin.map(() => MOCK_ORIGIN_SIG);
+      const response = await submit(route.intentId, origin, MOCK_DEST_SIG);
+      expect(response.status).toBe(201);
+
+      await waitForIntentStatus(route.intentId);
+    });
+  });
+
+  describe("Admin snapshots", () => {
+    it("should restore fork balances and intents to a snapshot", async () => {
+      const recipient = "0x0000000000000000000000000000000000005a5a" as Address;
+      const publicClient = createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      });
+      const recipientBalance = () =>
+        publicClient.readContract({
+          address: USDC_BASE_SEPOLIA as Address,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [recipient],
+        });
+      const before = await recipientBalance();
+
+      const snapshot = await apiCall<any>("POST", "/admin/snapshots");
+      expect(typeof snapshot.id).toBe("string");
+
+      const quoteResponse = await apiCall<any>("POST", "/quotes", {
+        destinationChainId: BASE_SEPOLIA_CAIP2,
+        tokenRequests: [
+          {
+            tokenAddress: USDC_BASE_SEPOLIA,
+            amount: parseUnits("2", 6).toString(),
+          },
+        ],
+        account: { address: USER_ADDRESS },
+        recipient: { address: recipient },
+        accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+      });
+      const route = quoteResponse.routes[0];
+      await apiCall<any>("POST", "/intents", {
+        intentId: route.intentId,
+        signatures: { origin: [MOCK_ORIGIN_SIG], destination: MOCK_DEST_SIG },
+      });
+      await waitForIntentStatus(route.intentId);
+      expect(await recipientBalance()).toBe(before + parseUnits("2", 6));
+
+      await apiCall<any>("POST", `/admin/snapshots/${snapshot.id}/restore`);
+
+      expect(await recipientBalance()).toBe(before);
+      const response = await fetch(`${API_BASE_URL}/intents/${route.intentId}`, {
+        method: "GET",
+        headers,
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Admin funding", () => {
+    it("should fund and approve a fresh account on demand", async () => {
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      const spender = "0x0000000000000000000000000000000000005e5e";
+      const amount = parseUnits("25", 6);
+
+      const funded = await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "USDC",
+            amount: amount.toString(),
+          },
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "USDC",
+            amount: "1",
+            mode: "topUp",
+          },
+        ],
+      });
+      expect(funded.results[0].current).toBe(amount.toString());
+      expect(funded.results[1].current).toBe(amount.toString());
+
+      const approved = await apiCall<any>("POST", "/admin/approve", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            owner: account,
+            spender,
+            token: "USDC",
+            amount: amount.toString(),
+          },
+        ],
+      });
+      expect(approved.results[0].current).toBe(amount.toString());
+
+      const publicClient = createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      });
+      const allowance = await publicClient.readContract({
+        address: USDC_BASE_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [account, spender],
+      });
+      expect(allowance).toBe(amount);
+    });
+
+    it("should fund a token through its discovered storage slots", async () => {
+      // WETH on Base Sepolia has no slots configured in chains.json
+      const WETH_BASE_SEPOLIA = "0x4200000000000000000000000000000000000006" as Address;
+      const account = privateKeyToAccount(generatePrivateKey()).address;
+      const amount = parseUnits("7", 18);
+
+      const funded = await apiCall<any>("POST", "/admin/fund", {
+        requests: [
+          {
+            chainId: BASE_SEPOLIA_CAIP2,
+            address: account,
+            token: "WETH",
+            amount: amount.toString(),
+          },
+        ],
+      });
+      expect(funded.results[0].current).toBe(amount.toString());
+
+      const balance = await createPublicClient({
+        transport: http(RPC_URLS[BASE_SEPOLIA_CHAIN_ID]),
+      }).readContract({
+        address: WETH_BASE_SEPOLIA,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [account],
+      });
+      expect(balance).toBe(amount);
+    });
+
+    it("should reject negative amounts", async () => {
+      const response = await fetch(`${API_BASE_URL}/admin/fund`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          requests: [
+            {
+              chainId: BASE_SEPOLIA_CAIP2,
+              address: USER_ADDRESS,
+              token: "USDC",
+              amount: "-1",
+            },
+          ],
+        }),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject admin calls without the admin key", async () => {
+      const { "x-admin-key": _, ...publicHeaders } = headers;
+      const response = await fetch(`${API_BASE_URL}/admin/fund`, {
+        method: "POST",
+        headers: publicHeaders,
+        body: JSON.stringify({ requests: [] }),
+      });
+
+      expect(response.status).toBe(401);
+      const body = await response.json();
+      expect(body.code).toBe("UNAUTHORIZED");
+    });
+  });
+
+  describe("Portfolio query filters", () => {
     it("should filter portfolio by chainIds", async () => {
       const response = await apiCall<any>(
         "GET",
@@ -507,25 +1989,128 @@ describe("Mockestrator Intent Flow", () => {
         expect(id).toBe(BASE_SEPOLIA_CAIP2);
       }
     });
-  });
 
-  describe("Liquidity endpoint", () => {
-    it("should return the unlimited mock shape", async () => {
+    it("should report only the filtered tokens with their USD value", async () => {
       const response = await apiCall<any>(
         "GET",
-        `/liquidity?sourceChainId=${encodeURIComponent(
-          BASE_SEPOLIA_CAIP2
-        )}&sourceToken=${USDC_BASE_SEPOLIA}&destinationChainId=${encodeURIComponent(
-          SEPOLIA_CAIP2
-        )}&destinationToken=${USDC_SEPOLIA}`
+        `/accounts/${USER_ADDRESS}/portfolio?tokens=${encodeURIComponent(
+          `${BASE_SEPOLIA_CAIP2}:${USDC_BASE_SEPOLIA}`
+        )}`
+      );
+
+      expect(response.portfolio).toHaveLength(1);
+      const [usdc] = response.portfolio;
+      expect(usdc.symbol).toBe("USDC");
+      expect(usdc.chains).toHaveLength(1);
+      expect(usdc.chains[0].chainId).toBe(BASE_SEPOLIA_CAIP2);
+      expect(usdc.chains[0].usd).toBeCloseTo(Number(usdc.chains[0].amount) / 1e6);
+    });
+
+    it("should read ERC-20s outside the token table on demand", async () => {
+      // WETH predeploy on Base Sepolia, not listed in chains.json
+      const weth = "0x4200000000000000000000000000000000000006";
+      const response = await apiCall<any>(
+        "GET",
+        `/accounts/${USER_ADDRESS}/portfolio?tokens=${encodeURIComponent(
+          `${BASE_SEPOLIA_CAIP2}:${weth}`
+        )}&tokens=${encodeURIComponent(`${SEPOLIA_CAIP2}:${USDC_SEPOLIA}`)}`
       );
 
-      expect(response).toMatchObject({
-        unlimited: true,
-        maxAmount: null,
+      const wethEntry = response.portfolio.find((p: any) => p.symbol === "WETH");
+      expect(wethEntry.chains).toEqual([
+        expect.objectContaining({
+          chainId: BASE_SEPOLIA_CAIP2,
+          address: weth,
+          decimals: 18,
+          usd: expect.any(Number),
+        }),
+      ]);
+      const usdcEntry = response.portfolio.find((p: any) => p.symbol === "USDC");
+      expect(usdcEntry.chains.map((c: any) => c.chainId)).toEqual([SEPOLIA_CAIP2]);
+    });
+
+    it("should answer identical concurrent requests alike", async () => {
+      const path = `/accounts/${USER_ADDRESS}/portfolio?chainIds=${encodeURIComponent(SEPOLIA_CAIP2)}`;
+      const responses = await Promise.all([1, 2, 3].map(() => apiCall<any>("GET", path)));
+      expect(responses[1]).toEqual(responses[0]);
+      expect(responses[2]).toEqual(responses[0]);
+    });
+  });
+
+  describe("Liquidity endpoint", () => {
+    afterEach(async () => {
+      await fetch(`${API_BASE_URL}/admin/liquidity`, {
+        method: "DELETE",
+        headers,
+      });
+    });
+
+    const liquidityUrl = (sourceToken: string, destinationToken: string, destinationChainId = SEPOLIA_CAIP2) =>
+      `/liquidity?sourceChainId=${encodeURIComponent(
+        BASE_SEPOLIA_CAIP2
+      )}&sourceToken=${sourceToken}&destinationChainId=${encodeURIComponent(
+        destinationChainId
+      )}&destinationToken=${destinationToken}`;
+
+    it("should report the token and the router balance on the destination", async () => {
+      const response = await apiCall<any>("GET", liquidityUrl(USDC_BASE_SEPOLIA, USDC_SEPOLIA));
+
+      expect(response).toMatchObject({ symbol: "USDC", decimals: 6, unlimited: false });
+      const routerBalance = await createPublicClient({
+        transport: http(RPC_URLS[SEPOLIA_CHAIN_ID]),
+      }).readContract({
+        address: USDC_SEPOLIA as Address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: ["0x8a525dc484f893ca64fef507746ebd5036eec256"],
+      });
+      expect(response.maxAmount).toBe(routerBalance.toString());
+    });
+
+    it("should report an admin cap and enforce it when quoting", async () => {
+      await apiCall<any>("POST", "/admin/liquidity", {
+        chainId: SEPOLIA_CAIP2,
+        token: "USDC",
+        maxAmount: parseUnits("3", 6).toString(),
       });
-      expect(typeof response.symbol).toBe("string");
-      expect(typeof response.decimals).toBe("number");
+      const response = await apiCall<any>("GET", liquidityUrl(USDC_BASE_SEPOLIA, USDC_SEPOLIA));
+      expect(response.maxAmount).toBe(parseUnits("3", 6).toString());
+
+      const quote = (amount: string) =>
+        fetch(`${API_BASE_URL}/quotes`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            destinationChainId: SEPOLIA_CAIP2,
+            tokenRequests: [{ tokenAddress: USDC_SEPOLIA, amount }],
+            account: { address: USER_ADDRESS },
+            accountAccessList: { chainIds: [BASE_SEPOLIA_CAIP2] },
+          }),
+        });
+      expect((await quote(response.maxAmount)).status).toBe(200);
+      const refused = await quote((BigInt(response.maxAmount) + 1n).toString());
+      expect(refused.status).toBe(422);
+      expect((await refused.json()).code).toBe("INSUFFICIENT_LIQUIDITY");
+    });
+
+    it("should reject unsupported tokens and pairs", async () => {
+      const unknownToken = await fetch(
+        `${API_BASE_URL}${liquidityUrl(USDC_BASE_SEPOLIA, "0x0000000000000000000000000000000000000001")}`,
+        { headers }
+      );
+      expect(unknownToken.status).toBe(404);
+
+      const mismatchedPair = await fetch(
+        `${API_BASE_URL}${liquidityUrl(USDC_BASE_SEPOLIA, "0x0000000000000000000000000000000000000000")}`,
+        { headers }
+      );
+      expect(mismatchedPair.status).toBe(400);
+
+      const unknownChain = await fetch(
+        `${API_BASE_URL}${liquidityUrl(USDC_BASE_SEPOLIA, USDC_SEPOLIA, "eip155:1")}`,
+        { headers }
+      );
+      expect(unknownChain.status).toBe(400);
     });
   });
 });
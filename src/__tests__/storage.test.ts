@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonLinesRepository } from "../services/storage";
+import "../serializeBigInts";
+
+describe("JsonLinesRepository", () => {
+  let directory: string;
+  const logPath = () => join(directory, "items.jsonl");
+  const logLines = () => readFileSync(logPath(), "utf-8").split("\n").filter((l) => l.trim());
+
+  const open = <T>() => new JsonLinesRepository<T>(logPath());
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "mockestrator-storage-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should round-trip bigints through the log", () => {
+    open<{ amount: bigint; inputs: { amount: bigint }[]; label: string }>().set("a", {
+      amount: 10n ** 30n,
+      inputs: [{ amount: 1n }],
+      label: "123",
+    });
+
+    expect(open<any>().get("a")).toEqual({
+      amount: 10n ** 30n,
+      inputs: [{ amount: 1n }],
+      label: "123",
+    });
+  });
+
+  it("should replay deletes", () => {
+    const repository = open<number>();
+    repository.set("a", 1);
+    repository.set("b", 2);
+    repository.delete("a");
+
+    const reopened = open<number>();
+    expect(reopened.get("a")).toBeUndefined();
+    expect(reopened.entries()).toEqual([["b", 2]]);
+  });
+
+  it("should compact the log to one line per live entry on load", () => {
+    writeFileSync(
+      logPath(),
+      [
+        { op: "set", id: "a", value: 1 },
+        { op: "set", id: "b", value: 2 },
+        { op: "set", id: "a", value: 3 },
+        { op: "delete", id: "b" },
+      ]
+        .map((entry) => JSON.stringify(entry) + "\n")
+        .join(""),
+    );
+
+    expect(open<number>().entries()).toEqual([["a", 3]]);
+    expect(logLines().map((line) => JSON.parse(line))).toEqual([{ op: "set", id: "a", value: 3 }]);
+  });
+});
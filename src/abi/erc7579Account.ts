@@ -0,0 +1,26 @@
+export const erc7579AccountAbi = [
+  {
+    type: "function",
+    name: "installModule",
+    inputs: [
+      { name: "moduleTypeId", type: "uint256", internalType: "uint256" },
+      { name: "module", type: "address", internalType: "address" },
+      { name: "initData", type: "bytes", internalType: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "isModuleInstalled",
+    inputs: [
+      { name: "moduleTypeId", type: "uint256", internalType: "uint256" },
+      { name: "module", type: "address", internalType: "address" },
+      { name: "additionalContext", type: "bytes", internalType: "bytes" },
+    ],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export const MODULE_TYPE_EXECUTOR = 2n;
@@ -0,0 +1,16 @@
+import type { NextFunction, Request, Response } from 'express';
+import { ApiError, sendError } from './errors';
+
+// Kept out of config.json so a shipped config never enables the admin API with a known key
+export function requireAdminKey(req: Request, resp: Response, next: NextFunction): void {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey) {
+        sendError(resp, new ApiError(403, 'FORBIDDEN', 'Admin API is disabled. Set ADMIN_API_KEY to enable it.'));
+        return;
+    }
+    if (req.headers['x-admin-key'] !== adminKey) {
+        sendError(resp, new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid x-admin-key header'));
+        return;
+    }
+    next();
+}
@@ -5,10 +5,24 @@ import { quote } from './routes/quote';
 import { getIntentStatus, postIntent } from './routes/intents';
 import { intent_split } from './routes/intent_split';
 import { chains } from './routes/chains';
-import { liquidity } from './routes/liquidity';
+import { deleteLiquidityCaps, liquidity, postLiquidityCap } from './routes/liquidity';
+import { deleteFailureRule, deleteFailureRules, getFailureRules, postFailureRule, putFailureRules } from './routes/failures';
 import './serializeBigInts';
+import { postReset, postSnapshot, postSnapshotRestore } from './routes/snapshots';
+import { postApprove, postFund } from './routes/funding';
+import {
+    deleteQuoteTtl,
+    deleteStrictSignatures,
+    postQuoteSweep,
+    postQuoteTtl,
+    postStrictSignatures,
+} from './routes/settings';
 import { initContexts } from './chains';
+import { startQuoteSweeper } from './services/quoteCache';
+import { takeBootSnapshot } from './services/snapshots';
+import { failInterruptedIntents } from './services/intentRepo';
 import { requireApiVersion } from './version';
+import { requireAdminKey } from './admin';
 import { sendError } from './errors';
 import { ApiError } from './errors';
 
@@ -26,6 +40,25 @@ app.get('/intents/:id', getIntentStatus);
 app.get('/chains', chains);
 app.get('/liquidity', liquidity);
 
+app.use('/admin', requireAdminKey);
+app.get('/admin/failures', getFailureRules);
+app.post('/admin/failures', postFailureRule);
+app.put('/admin/failures', putFailureRules);
+app.delete('/admin/failures', deleteFailureRules);
+app.delete('/admin/failures/:id', deleteFailureRule);
+app.post('/admin/snapshots', postSnapshot);
+app.post('/admin/snapshots/:id/restore', postSnapshotRestore);
+app.post('/admin/reset', postReset);
+app.post('/admin/fund', postFund);
+app.post('/admin/approve', postApprove);
+app.post('/admin/liquidity', postLiquidityCap);
+app.delete('/admin/liquidity', deleteLiquidityCaps);
+app.post('/admin/quotes/ttl', postQuoteTtl);
+app.delete('/admin/quotes/ttl', deleteQuoteTtl);
+app.post('/admin/quotes/sweep', postQuoteSweep);
+app.post('/admin/signatures/strict', postStrictSignatures);
+app.delete('/admin/signatures/strict', deleteStrictSignatures);
+
 app.all(/.*/, (req, res) => {
     console.log('**** Unmapped request ****');
     logRequest(req);
@@ -34,6 +67,12 @@ app.all(/.*/, (req, res) => {
 
 (async () => {
     await initContexts();
+    await takeBootSnapshot();
+    const interrupted = failInterruptedIntents();
+    if (interrupted > 0) {
+        console.log(`Failed ${interrupted} intents interrupted by the restart`);
+    }
+    startQuoteSweeper();
     app.listen(port, () => {
         console.log(`🚀 Server running on http://localhost:${port}`);
     });
@@ -1,13 +1,43 @@
 import { readFileSync } from "fs";
-import { Account, Address, Chain, createTestClient, createWalletClient, encodeAbiParameters, encodeFunctionData, encodePacked, erc20Abi, getAddress, Hash, Hex, http, keccak256, multicall3Abi, NonceTooLowError, numberToHex, pad, publicActions, stringToHex, toHex, Transport, zeroAddress } from "viem";
+import { Account, Address, Chain, createTestClient, createWalletClient, encodeAbiParameters, encodeFunctionData, erc20Abi, getAddress, Hash, Hex, http, keccak256, multicall3Abi, NonceTooLowError, numberToHex, pad, publicActions, stringToHex, SignedAuthorization, Transport, TypedDataDefinition, zeroAddress } from "viem";
 import z, { symbol, ZodSchema } from "zod";
 import { privateKeyToAccount } from 'viem/accounts'
 import { fakeRouterAbi } from "./abi/fakeRouter";
+import { erc7579AccountAbi } from "./abi/erc7579Account";
 import { intentExecutorAbi, INTENT_EXECUTOR_ADDRESS } from "./abi/intentExecutor";
 import * as chains from "viem/chains"
+import { ERROR_CODES } from "./errors";
+import { fromCaip2 } from "./caip2";
 
 type TokenSymbol = string
 
+// Solidity hashes mapping keys as keccak(key . slot), Vyper as keccak(slot . key)
+type StorageLayout = 'solidity' | 'vyper'
+
+type MappingSlot = {
+    slot: number
+    layout: StorageLayout
+}
+
+const STORAGE_LAYOUTS: StorageLayout[] = ['solidity', 'vyper']
+const MAX_PROBED_SLOT = 128
+const PROBE_VALUE = 0x5107_5107_5107n
+const PROBE_OWNER: Address = '0x5107000000000000000000000000000000000001'
+const PROBE_SPENDER: Address = '0x5107000000000000000000000000000000000002'
+
+function balanceStorageKey(holder: Address, mapping: MappingSlot): Hex {
+    return keccak256(mapping.layout == 'solidity'
+        ? encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [holder, BigInt(mapping.slot)])
+        : encodeAbiParameters([{ type: 'uint256' }, { type: 'address' }], [BigInt(mapping.slot), holder]))
+}
+
+function allowanceStorageKey(owner: Address, spender: Address, mapping: MappingSlot): Hex {
+    const inner = balanceStorageKey(owner, mapping)
+    return keccak256(mapping.layout == 'solidity'
+        ? encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [spender, inner])
+        : encodeAbiParameters([{ type: 'bytes32' }, { type: 'address' }], [inner, spender]))
+}
+
 const viemChains: Record<number, Chain> = Object.fromEntries(Object.values(chains).map(c => [c.id, c]));
 
 export type Balance = {
@@ -26,12 +56,15 @@ export class ChainContext {
 
     private tokens: Record<Address, {
         decimals: number;
-        balanceSlot?: number;
-        approvalSlot?: number;
+        balanceSlot?: MappingSlot;
+        approvalSlot?: MappingSlot;
     }> = {}
 
     private tokenSymbols: TokenSymbol[] = []
 
+    // Pending impersonated sends per sender, see sendAs
+    private senderQueues = new Map<Address, Promise<unknown>>()
+
     constructor(private chain: Chain, account: Account, private chainConfig: ChainConfig, private fundingConfig: Config, transport: Transport) {
         this.walletClient = createWalletClient({
             account,
@@ -40,7 +73,11 @@ export class ChainContext {
         }).extend(publicActions)
 
         for (const [symbol, tokenConfig] of Object.entries(chainConfig.tokens)) {
-            this.tokens[tokenConfig.address] = tokenConfig
+            this.tokens[tokenConfig.address] = {
+                decimals: tokenConfig.decimals,
+                balanceSlot: tokenConfig.balanceSlot != undefined ? { slot: tokenConfig.balanceSlot, layout: 'solidity' } : undefined,
+                approvalSlot: tokenConfig.approvalSlot != undefined ? { slot: tokenConfig.approvalSlot, layout: 'solidity' } : undefined,
+            }
             this.tokenSymbols.push(symbol)
         }
 
@@ -68,6 +105,11 @@ export class ChainContext {
         return addr ? this.tokens[addr]?.decimals : undefined
     }
 
+    tokenSymbol(address: Address): TokenSymbol | undefined {
+        const entry = Object.entries(this.chainConfig.tokens).find(([_, token]) => token.address.toLowerCase() == address.toLowerCase())
+        return entry?.[0]
+    }
+
     maybeAddress(symbol: TokenSymbol): Address | undefined {
         return this.chainConfig.tokens[symbol]?.address
     }
@@ -124,6 +166,48 @@ export class ChainContext {
         return erc20Tokens.map((token, i) => { return { ...token, amount: BigInt(erc20Balances[i]) } }).concat(nativeBalances)
     }
 
+    /**
+     * Balances of ERC-20s outside the token table, reading symbol and decimals
+     * along with the balance in a single multicall. Contracts that do not answer
+     * as an ERC-20 are left out of the result.
+     */
+    public async erc20Balances(address: Address, tokenAddresses: Address[]): Promise<Balance[]> {
+        const contracts = tokenAddresses.flatMap((token) => [
+            { address: token, abi: erc20Abi, functionName: 'balanceOf', args: [address] },
+            { address: token, abi: erc20Abi, functionName: 'decimals' },
+            { address: token, abi: erc20Abi, functionName: 'symbol' },
+        ] as const)
+        const results = await this.walletClient.multicall({ contracts })
+
+        return tokenAddresses.flatMap((token, i) => {
+            const [balance, decimals, symbol] = results.slice(i * 3, i * 3 + 3)
+            if (balance.status != 'success' || decimals.status != 'success' || symbol.status != 'success') {
+                return []
+            }
+            return [{
+                symbol: symbol.result as string,
+                token,
+                amount: balance.result as bigint,
+                decimals: Number(decimals.result),
+                chainId: this.chain.id,
+            }]
+        })
+    }
+
+    public async tokenBalance(address: Address, token: TokenSymbol): Promise<bigint> {
+        const [balance] = await this.balanceOf(address, [token])
+        return BigInt(balance.amount.toString())
+    }
+
+    public async allowance(owner: Address, spender: Address, token: TokenSymbol): Promise<bigint> {
+        return this.walletClient.readContract({
+            address: this.getTokenAddress(token),
+            abi: erc20Abi,
+            functionName: 'allowance',
+            args: [owner, spender],
+        })
+    }
+
     public transferFrom(to: Address, amount: bigint): Hex {
         return encodeFunctionData({
             abi: erc20Abi,
@@ -159,7 +243,17 @@ export class ChainContext {
         }
     }
 
-    public async execute(execution: { to: Address, callData: Hex, value: bigint }): Promise<Hash> {
+    /** Sends a relayer transaction, as an EIP-7702 (type-4) transaction when an authorization list is given. */
+    public async execute(execution: Execution): Promise<Hash> {
+        return (await this.send(execution)).hash
+    }
+
+    /**
+     * Sends a relayer transaction and returns its hash with the gas figures from
+     * the receipt. An explicit `gas` limit is passed through untouched, so an
+     * out-of-gas reproduces instead of being papered over by estimation.
+     */
+    public async send(execution: Execution): Promise<SentTransaction> {
         // Forks run with `--no-priority-fee` and a low base fee. viem's default
         // 1 gwei priority fee exceeds the resulting max-fee cap. Pin priority to 0
         // and use a generous cap (1 gwei) that easily covers any forked base fee.
@@ -167,35 +261,158 @@ export class ChainContext {
             maxFeePerGas: 1_000_000_000n,
             maxPriorityFeePerGas: 0n,
         } as const
+        const request = {
+            to: execution.to,
+            value: execution.value,
+            data: execution.callData,
+            authorizationList: execution.authorizationList,
+            gas: execution.gas,
+            ...sendOpts,
+        }
 
+        let receipt
         try {
-            const receipt = await this.walletClient.sendTransactionSync({
+            receipt = await this.walletClient.sendTransactionSync(request)
+        } catch (error: any) {
+            const isNonceError = error instanceof NonceTooLowError || error?.cause instanceof NonceTooLowError
+            if (!isNonceError) {
+                throw error
+            }
+            const nextNonce = await this.walletClient.getTransactionCount({ address: this.walletClient.account.address })
+            receipt = await this.walletClient.sendTransactionSync({ ...request, nonce: nextNonce })
+        }
+
+        if (receipt.status == 'reverted') {
+            if (execution.gas !== undefined && receipt.gasUsed >= execution.gas) {
+                throw new Error(`Transaction ${receipt.transactionHash} ran out of gas (limit ${execution.gas})`)
+            }
+            // Replay on top of the parent block so the thrown error carries the revert data
+            await this.walletClient.call({
+                account: this.walletClient.account,
                 to: execution.to,
-                value: execution.value,
                 data: execution.callData,
-                ...sendOpts,
+                value: execution.value,
+                blockNumber: receipt.blockNumber - 1n,
             })
-            if (receipt.status == 'reverted') {
-                throw new Error(`Transaction ${receipt.transactionHash} reverted`)
+            throw new Error(`Transaction ${receipt.transactionHash} reverted`)
+        }
+        return {
+            hash: receipt.transactionHash,
+            gasUsed: receipt.gasUsed,
+            effectiveGasPrice: receipt.effectiveGasPrice,
+        }
+    }
+
+    /** Checks an EIP-712 signature of `address`, via ERC-1271 / ERC-6492 for contract accounts. */
+    public async verifyTypedData(address: Address, typedData: TypedDataDefinition, signature: Hex): Promise<boolean> {
+        try {
+            return await this.walletClient.verifyTypedData({ address, signature, ...typedData })
+        } catch (e) {
+            console.log(`${this.chain.name}: Signature verification for ${address} failed: `, e)
+            return false
+        }
+    }
+
+    /** Dry-runs a call as `from` and throws with the revert reason if it would fail. */
+    public async simulate(call: { from: Address, to: Address, callData: Hex, value: bigint, gas?: bigint }): Promise<void> {
+        await this.walletClient.call({
+            account: call.from,
+            to: call.to,
+            data: call.callData,
+            value: call.value,
+            gas: call.gas,
+        })
+    }
+
+    /**
+     * Moves `amount` of `token` from `owner` to the relayer by impersonating the owner.
+     * Only the pulled amount leaves the account - the relayer pays for claims.
+     */
+    public async pullFunds(owner: Address, token: Address, amount: bigint): Promise<Hash> {
+        const relayer = this.walletClient.account.address
+        const isNative = token == zeroAddress
+        const hash = await this.sendAs(owner, {
+            to: isNative ? relayer : token,
+            value: isNative ? amount : 0n,
+            callData: isNative ? '0x' : this.transfer(relayer, amount),
+        })
+        console.log(`${this.chain.name}: Pulled ${amount} of ${token} from ${owner} in ${hash}`)
+        return hash
+    }
+
+    /**
+     * Sends a transaction from `sender` by impersonating it. The sender's native
+     * balance is topped up for gas and restored afterwards, so only `value`
+     * leaves the account. Sends from the same sender run one at a time, since an
+     * overlapping send would restore the balance the other one read before.
+     */
+    public sendAs(sender: Address, execution: { to: Address, callData: Hex, value: bigint }): Promise<Hash> {
+        const key = getAddress(sender)
+        const task = () => this.sendAsNow(sender, execution)
+        const run = (this.senderQueues.get(key) ?? Promise.resolve()).then(task, task)
+        const queued = run.catch(() => undefined)
+        this.senderQueues.set(key, queued)
+        queued.then(() => {
+            if (this.senderQueues.get(key) === queued) {
+                this.senderQueues.delete(key)
             }
-            return receipt.transactionHash
-        } catch (error: any) {
-            const isNonceError = error instanceof NonceTooLowError || error?.cause instanceof NonceTooLowError
-            if (isNonceError) {
-                const nextNonce = await this.walletClient.getTransactionCount({ address: this.walletClient.account.address })
-                const receipt = await this.walletClient.sendTransactionSync({
-                    to: execution.to,
-                    value: execution.value,
-                    data: execution.callData,
-                    nonce: nextNonce,
-                    ...sendOpts,
-                })
-                if (receipt.status == 'reverted') {
-                    throw new Error(`Transaction ${receipt.transactionHash} reverted`)
-                }
-                return receipt.transactionHash
+        })
+        return run
+    }
+
+    private async sendAsNow(sender: Address, execution: { to: Address, callData: Hex, value: bigint }): Promise<Hash> {
+        const nativeBefore = await this.walletClient.getBalance({ address: sender })
+        const gasBuffer = 10n ** 18n
+
+        await this.testClient.impersonateAccount({ address: sender })
+        await this.testClient.setBalance({ address: sender, value: nativeBefore + gasBuffer })
+
+        let sent = false
+        try {
+            const hash = await this.walletClient.sendTransaction({
+                account: sender,
+                chain: this.chain,
+                to: execution.to,
+                value: execution.value,
+                data: execution.callData == '0x' ? undefined : execution.callData,
+                maxFeePerGas: 1_000_000_000n,
+                maxPriorityFeePerGas: 0n,
+            })
+            const receipt = await this.walletClient.waitForTransactionReceipt({ hash })
+            if (receipt.status == 'reverted') {
+                throw new Error(`Transaction ${hash} from ${sender} reverted`)
             }
-            throw error
+            sent = true
+            return hash
+        } finally {
+            await this.testClient.setBalance({ address: sender, value: sent ? nativeBefore - execution.value : nativeBefore })
+            await this.testClient.stopImpersonatingAccount({ address: sender })
+        }
+    }
+
+    /** Whether `account` has code: a deployed contract or a 7702 delegation designator. */
+    public async accountCode(account: Address): Promise<{ deployed: boolean, delegation?: Address }> {
+        const code = await this.walletClient.getCode({ address: account })
+        if (!code || code == '0x') {
+            return { deployed: false }
+        }
+        // EIP-7702 designator: 0xef0100 || address
+        if (code.length == 48 && code.toLowerCase().startsWith('0xef0100')) {
+            return { deployed: false, delegation: getAddress(`0x${code.slice(8)}`) }
+        }
+        return { deployed: true }
+    }
+
+    public async isModuleInstalled(account: Address, moduleTypeId: bigint, module: Address): Promise<boolean> {
+        try {
+            return await this.walletClient.readContract({
+                address: account,
+                abi: erc7579AccountAbi,
+                functionName: 'isModuleInstalled',
+                args: [moduleTypeId, module, '0x'],
+            })
+        } catch {
+            return false
         }
     }
 
@@ -234,11 +451,9 @@ export class ChainContext {
         } else {
             const balanceSlot = this.tokens[tokenAddress].balanceSlot
             if (balanceSlot == undefined) {
-                throw new Error(`${token} at ${tokenAddress} config has undefined balance slot`)
+                throw new Error(`${token} at ${tokenAddress} has no discovered or configured balance slot`)
             }
-            const slot = keccak256(
-                encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [account, BigInt(balanceSlot)]),
-            );
+            const slot = balanceStorageKey(account, balanceSlot)
             console.log(`${this.walletClient.chain.name}: Erc20 balance for ${account} on ${token} ( ${tokenAddress}) -> ${value}]`)
             await this.testClient.setStorageAt({
                 address: tokenAddress,
@@ -257,12 +472,11 @@ export class ChainContext {
             // skip natives
         } else {
             const approvalSlot = this.tokens[tokenAddress].approvalSlot
-            if (!approvalSlot) {
-                throw new Error(`${token} at ${tokenAddress} config has undefined approval slot`)
+            if (approvalSlot == undefined) {
+                throw new Error(`${token} at ${tokenAddress} has no discovered or configured approval slot`)
             }
 
-            const inner = keccak256(encodePacked(["bytes32", "bytes32"], [pad(owner), pad(toHex(approvalSlot))]));
-            const slot = keccak256(encodePacked(["bytes32", "bytes32"], [pad(spender), inner]))
+            const slot = allowanceStorageKey(owner, spender, approvalSlot)
             console.log(`${this.walletClient.chain.name}: Erc20 approval from ${owner}, to ${spender} on ${token} ( ${tokenAddress}) -> ${value}]`)
             await this.testClient.setStorageAt({
                 address: tokenAddress,
@@ -272,6 +486,99 @@ export class ChainContext {
         }
     }
 
+    /**
+     * Finds the balance and allowance mapping slots of every ERC-20 by writing a
+     * marker value to candidate storage keys and reading it back through
+     * `balanceOf` / `allowance`. Found slots replace the configured ones, which
+     * are only used when probing fails.
+     */
+    public async discoverStorageSlots() {
+        for (const [symbol, tokenAddress] of Object.entries(this.chainConfig.tokens).map(([s, t]) => [s, t.address] as const)) {
+            if (tokenAddress == zeroAddress) continue
+            const token = this.tokens[tokenAddress]
+
+            const balanceSlot = await this.probeMappingSlot(
+                tokenAddress,
+                encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [PROBE_OWNER] }),
+                (mapping) => balanceStorageKey(PROBE_OWNER, mapping),
+            )
+            const approvalSlot = await this.probeMappingSlot(
+                tokenAddress,
+                encodeFunctionData({ abi: erc20Abi, functionName: 'allowance', args: [PROBE_OWNER, PROBE_SPENDER] }),
+                (mapping) => allowanceStorageKey(PROBE_OWNER, PROBE_SPENDER, mapping),
+            )
+
+            for (const [kind, found, configured] of [
+                ['balance', balanceSlot, token.balanceSlot],
+                ['approval', approvalSlot, token.approvalSlot],
+            ] as const) {
+                if (found) {
+                    console.log(`${this.chain.name}: ${symbol} ${kind} slot discovered: ${found.slot} (${found.layout})`)
+                } else if (configured) {
+                    console.log(`${this.chain.name}: ${symbol} ${kind} slot not discovered - using configured slot ${configured.slot}`)
+                } else {
+                    console.log(`${this.chain.name}: ${symbol} ${kind} slot not discovered and not configured`)
+                }
+            }
+
+            token.balanceSlot = balanceSlot ?? token.balanceSlot
+            token.approvalSlot = approvalSlot ?? token.approvalSlot
+        }
+    }
+
+    private async probeMappingSlot(token: Address, readCall: Hex, storageKey: (mapping: MappingSlot) => Hex): Promise<MappingSlot | undefined> {
+        let candidates = Array.from({ length: MAX_PROBED_SLOT }, (_, slot) => STORAGE_LAYOUTS.map((layout) => ({ slot, layout }))).flat()
+
+        // The access list of the read call tells which keys it touches - only
+        // fall back to writing every candidate when the node can't produce one
+        try {
+            const { accessList } = await this.walletClient.createAccessList({ to: token, data: readCall })
+            const touched = new Set(accessList
+                .filter((entry) => entry.address.toLowerCase() == token.toLowerCase())
+                .flatMap((entry) => entry.storageKeys.map((key) => key.toLowerCase())))
+            candidates = candidates.filter((mapping) => touched.has(storageKey(mapping).toLowerCase()))
+        } catch (e) {
+            console.log(`${this.chain.name}: eth_createAccessList failed for ${token}, probing all slots`)
+        }
+
+        for (const mapping of candidates) {
+            const index = storageKey(mapping)
+            const original = await this.walletClient.getStorageAt({ address: token, slot: index }) ?? pad('0x0')
+            await this.testClient.setStorageAt({ address: token, index, value: pad(numberToHex(PROBE_VALUE)) })
+
+            let value: bigint | undefined
+            try {
+                const result = await this.walletClient.call({ to: token, data: readCall })
+                value = result.data ? BigInt(result.data) : undefined
+            } catch (e) {
+                value = undefined
+            }
+
+            await this.testClient.setStorageAt({ address: token, index, value: original })
+            if (value == PROBE_VALUE) {
+                return mapping
+            }
+        }
+        return undefined
+    }
+
+    /** Re-applies the boot-time funding, approvals and code overrides. */
+    public async bootstrap(codeOverrides: CodeOverrides) {
+        await this.setupAccount(this.fundingConfig)
+
+        for (const [addressStr, code] of Object.entries(codeOverrides)) {
+            await this.overrideCode(getAddress(addressStr), code)
+        }
+    }
+
+    public async snapshot(): Promise<Hex> {
+        return this.testClient.snapshot()
+    }
+
+    public async revert(snapshotId: Hex) {
+        await this.testClient.revert({ id: snapshotId })
+    }
+
     public async overrideCode(address: Address, code: Hex) {
         await this.testClient.setCode({
             address,
@@ -333,6 +640,10 @@ export class ChainContext {
 
 type ChainContexts = { [key: number]: ChainContext }
 
+export type Execution = { to: Address, callData: Hex, value: bigint, gas?: bigint, authorizationList?: SignedAuthorization[] }
+
+export type SentTransaction = { hash: Hash, gasUsed: bigint, effectiveGasPrice: bigint }
+
 export const fixedHex = (numbytes: number) => {
     return z.string().regex(
         new RegExp(`^0x[a-fA-F0-9]{${numbytes * 2}}$`),
@@ -349,6 +660,50 @@ export const VarHex = z.string().regex(
 export const AddressSchema = fixedHex(20).transform((v) => v as Address)
 
 export const BigIntSchema = z.coerce.bigint()
+// Token amounts and caps, which are never negative
+export const AmountSchema = BigIntSchema.nonnegative()
+
+export const FailureRuleSchema = z.object({
+    id: z.string().optional(),
+    // Endpoints the rule applies to - all of them when omitted
+    on: z.array(z.enum(['quote', 'intent', 'split', 'liquidity'])).optional(),
+    match: z.object({
+        account: AddressSchema.optional(),
+        destinationChainId: z.union([z.number(), z.string().regex(/^eip155:\d+$/).transform((v) => fromCaip2(v))]).optional(),
+        // Token address or symbol
+        token: z.string().optional(),
+        minAmount: BigIntSchema.optional(),
+        maxAmount: BigIntSchema.optional(),
+    }).default({}),
+    error: z.object({
+        code: z.enum(ERROR_CODES),
+        status: z.number().int().optional(),
+        message: z.string().optional(),
+    }).optional(),
+    // Accept the intent but let it end up in this status
+    intentStatus: z.enum(['FAILED', 'EXPIRED']).optional(),
+    // Number of times the rule fires before it is dropped
+    times: z.number().int().positive().optional(),
+}).refine((rule) => rule.error || rule.intentStatus, { message: 'Rule needs an error or an intentStatus' })
+export type FailureRule = z.infer<typeof FailureRuleSchema>
+
+// Milliseconds an intent stays in each state before moving on
+const LifecycleDelaysSchema = z.object({
+    PENDING: z.number().nonnegative(),
+    PRECONFIRMED: z.number().nonnegative(),
+    CLAIMED: z.number().nonnegative(),
+    FILLED: z.number().nonnegative(),
+}).partial()
+export type LifecycleDelays = z.infer<typeof LifecycleDelaysSchema>
+
+const FeeModelSchema = z.object({
+    gasUsdPerChain: z.number().nonnegative(),
+    bridgeBps: z.number().nonnegative(),
+    protocolBps: z.number().nonnegative(),
+    swapBps: z.number().nonnegative(),
+    settlementUsd: z.number().nonnegative(),
+})
+export type FeeModel = z.infer<typeof FeeModelSchema>
 
 const RpcSchema = z.record(z.string(), z.object({
     rpc: z.string(),
@@ -360,10 +715,48 @@ const ConfigSchema = z.object({
     relayerAddress: AddressSchema,
     funding: z.record(AddressSchema, z.record(z.string(), BigIntSchema)),
     routerAddress: AddressSchema,
-    erc20approvals: z.record(AddressSchema, z.record(AddressSchema, z.record(z.string(), BigIntSchema))).optional()
-
+    erc20approvals: z.record(AddressSchema, z.record(AddressSchema, z.record(z.string(), BigIntSchema))).optional(),
+    // Spender accounts have to approve before their inputs can be claimed, Permit2 by default
+    approvalSpender: AddressSchema.optional(),
+    // Verify intent signatures against the quoted typed data instead of accepting any non-zero signature
+    strictSignatures: z.boolean().optional(),
+    lifecycle: z.object({
+        delays: LifecycleDelaysSchema.optional(),
+    }).optional(),
+    failureRules: z.array(FailureRuleSchema).optional(),
+    storage: z.discriminatedUnion('type', [
+        z.object({ type: z.literal('memory') }),
+        z.object({ type: z.literal('jsonl'), directory: z.string() }),
+    ]).optional(),
+    settlementLayers: z.record(z.string(), z.object({
+        enabled: z.boolean().optional(),
+        fillTimeSeconds: z.number().int().nonnegative().optional(),
+        // Overrides the lifecycle delays for intents settled through this layer
+        delays: LifecycleDelaysSchema.optional(),
+        // Most a single intent through this layer can fill, per token symbol
+        maxAmounts: z.record(z.string(), AmountSchema).optional(),
+    })).optional(),
+    liquidity: z.object({
+        // Most a single intent can fill, per chain id and token symbol
+        caps: z.record(z.string(), z.record(z.string(), AmountSchema)).optional(),
+        // Also cap fills at the balance that funds them on the destination, on by default
+        relayerBalance: z.boolean().optional(),
+    }).optional(),
+    pricing: z.object({
+        // USD price per token symbol
+        prices: z.record(z.string(), z.number().nonnegative()).optional(),
+        // Fee model per settlement layer
+        fees: z.record(z.string(), FeeModelSchema.partial()).optional(),
+    }).optional(),
+    quotes: z.object({
+        ttlSeconds: z.number().int().positive(),
+        cleanupIntervalSeconds: z.number().positive(),
+        // How long the sweeper keeps expired quotes, so submitting one still
+        // reports the expiry instead of an unknown intent
+        expiredRetentionSeconds: z.number().nonnegative(),
+    }).partial().optional(),
 })
-type Config = z.infer<typeof ConfigSchema>
+export type Config = z.infer<typeof ConfigSchema>
 
 
 const CodeSchema = z.record(AddressSchema, VarHex)
@@ -387,7 +780,9 @@ type ChainConfigs = z.infer<typeof ChainConfigsSchema>
 async function loadChainContexts(): Promise<ChainContexts> {
     const rpcs: RpcConfig = loadJsonWithSchema('rpcs.json', RpcSchema)
     const config: Config = loadJsonWithSchema('config.json', ConfigSchema)
+    loadedConfig = config
     const codeOverrides: CodeOverrides = loadJsonWithSchema('code.json', CodeSchema)
+    loadedCodeOverrides = codeOverrides
     const chainConfigs: ChainConfigs = loadJsonWithSchema('chains.json', ChainConfigsSchema)
 
     const account = privateKeyToAccount(config.relayerKey)
@@ -436,11 +831,8 @@ async function loadChainContexts(): Promise<ChainContexts> {
 
         const chainContext = new ChainContext(chain, account, chainEntry, config, http(rpcConfig.rpc))
 
-        await chainContext.setupAccount(config)
-
-        for (const [addressStr, code] of Object.entries(codeOverrides)) {
-            await chainContext.overrideCode(getAddress(addressStr), code)
-        }
+        await chainContext.discoverStorageSlots()
+        await chainContext.bootstrap(codeOverrides)
 
         res[chainId] = chainContext
     }
@@ -450,6 +842,8 @@ async function loadChainContexts(): Promise<ChainContexts> {
 }
 
 let chainContextMap: ChainContexts | undefined
+let loadedConfig: Config | undefined
+let loadedCodeOverrides: CodeOverrides = {}
 
 export const initContexts = async () => {
     chainContextMap = await loadChainContexts()
@@ -462,6 +856,19 @@ export const chainContexts = (): ChainContexts => {
     return chainContextMap!
 }
 
+export const appConfig = (): Config => {
+    if (!loadedConfig) {
+        throw new Error(`Config not loaded - please call initContexts()`)
+    }
+    return loadedConfig
+}
+
+export const bootstrapContexts = async () => {
+    for (const ctx of Object.values(chainContexts())) {
+        await ctx.bootstrap(loadedCodeOverrides)
+    }
+}
+
 export function chainContext(chain: number): ChainContext {
     const chainContext = chainContexts()[chain]
     if (!chainContext) {
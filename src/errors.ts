@@ -2,20 +2,23 @@ import { randomBytes } from 'crypto';
 import type { Response } from 'express';
 import { ZodError } from 'zod';
 
-export type ErrorCode =
-    | 'VALIDATION_ERROR'
-    | 'NOT_FOUND'
-    | 'UNAUTHORIZED'
-    | 'FORBIDDEN'
-    | 'CONFLICT'
-    | 'UNPROCESSABLE_CONTENT'
-    | 'TOO_MANY_REQUESTS'
-    | 'INSUFFICIENT_LIQUIDITY'
-    | 'SETTLEMENT_QUOTE_ERROR'
-    | 'SETTLEMENT_EXECUTION_ERROR'
-    | 'EXTERNAL_SERVICE_TIMEOUT'
-    | 'RELAYER_MARKET_UNAVAILABLE'
-    | 'INTERNAL_ERROR';
+export const ERROR_CODES = [
+    'VALIDATION_ERROR',
+    'NOT_FOUND',
+    'UNAUTHORIZED',
+    'FORBIDDEN',
+    'CONFLICT',
+    'UNPROCESSABLE_CONTENT',
+    'TOO_MANY_REQUESTS',
+    'INSUFFICIENT_LIQUIDITY',
+    'SETTLEMENT_QUOTE_ERROR',
+    'SETTLEMENT_EXECUTION_ERROR',
+    'EXTERNAL_SERVICE_TIMEOUT',
+    'RELAYER_MARKET_UNAVAILABLE',
+    'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
 
 export type ErrorEnvelope = {
     code: ErrorCode;
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { jsonify, logRequest } from '../log';
+import { FailureRuleSchema } from '../chains';
+import { ApiError, sendError } from '../errors';
+import { addFailureRule, listFailureRules, removeFailureRule, replaceFailureRules } from '../services/failureRules';
+
+export const getFailureRules = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const out = { rules: listFailureRules() };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const postFailureRule = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const out = addFailureRule(FailureRuleSchema.parse(req.body));
+        console.log('Response: ', jsonify(out));
+        resp.status(201).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const putFailureRules = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = z.object({ rules: z.array(FailureRuleSchema) }).parse(req.body);
+        const out = { rules: replaceFailureRules(body.rules) };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const deleteFailureRules = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        replaceFailureRules([]);
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const deleteFailureRule = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const id = String(req.params.id);
+        if (!removeFailureRule(id)) {
+            throw new ApiError(404, 'NOT_FOUND', `Failure rule not found: ${id}`);
+        }
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { jsonify, logRequest } from '../log';
+import { AddressSchema, AmountSchema } from '../chains';
+import { fromCaip2 } from '../caip2';
+import { sendError } from '../errors';
+import { approveSpenders, fundAccounts } from '../services/funding';
+
+const Caip2Schema = z.string().regex(/^eip155:\d+$/).transform(fromCaip2);
+const ModeSchema = z.enum(['set', 'topUp']).default('set');
+
+const FundBodySchema = z.object({
+    requests: z.array(z.object({
+        chainId: Caip2Schema,
+        address: AddressSchema,
+        token: z.string(),
+        amount: AmountSchema,
+        mode: ModeSchema,
+    })).min(1),
+});
+
+const ApproveBodySchema = z.object({
+    requests: z.array(z.object({
+        chainId: Caip2Schema,
+        owner: AddressSchema,
+        spender: AddressSchema,
+        token: z.string(),
+        amount: AmountSchema,
+        mode: ModeSchema,
+    })).min(1),
+});
+
+export const postFund = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = FundBodySchema.parse(req.body);
+        const out = { results: await fundAccounts(body.requests) };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const postApprove = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = ApproveBodySchema.parse(req.body);
+        const out = { results: await approveSpenders(body.requests) };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
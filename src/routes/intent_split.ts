@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Address } from 'viem';
 import { jsonify, logRequest } from '../log';
 import { zPostIntentsSplitsData, zPostIntentsSplitsResponse } from '../gen/zod.gen';
-import { sendError } from '../errors';
+import { ApiError, sendError } from '../errors';
+import { fromCaip2 } from '../caip2';
+import { applyFailureRules } from '../services/failureRules';
+import { chunkAmount, tokenLiquidity } from '../services/liquidity';
 
 type SplitData = z.infer<typeof zPostIntentsSplitsData>;
 type SplitResponse = z.infer<typeof zPostIntentsSplitsResponse>;
@@ -17,7 +21,7 @@ export const intent_split = async (req: Request, resp: Response) => {
             query: undefined,
             headers: req.headers,
         });
-        const body = createSplitResponse(params);
+        const body = await createSplitResponse(params);
         console.log('Response: ', jsonify(body));
         resp.status(200).json(body);
     } catch (e) {
@@ -26,11 +30,35 @@ export const intent_split = async (req: Request, resp: Response) => {
     }
 };
 
-const createSplitResponse = (data: SplitData): SplitResponse => {
-    const tokens = data.body?.tokens ?? {};
-    const single: Record<string, string> = {};
-    for (const [address, amount] of Object.entries(tokens)) {
-        single[address] = amount.toString();
+/**
+ * Splits the requested tokens into intents that each stay within the fill
+ * liquidity of the destination chain. Chunk `i` of every token goes into
+ * intent `i`, so tokens needing fewer chunks only appear in the first intents.
+ */
+const createSplitResponse = async (data: SplitData): Promise<SplitResponse> => {
+    const tokens = Object.entries(data.body?.tokens ?? {}).map(([tokenAddress, amount]) => ({
+        tokenAddress: tokenAddress as Address,
+        amount: parseAmount(tokenAddress, amount),
+    }));
+    const chainId = data.body ? fromCaip2(data.body.chainId) : undefined;
+    applyFailureRules({ endpoint: 'split', destinationChainId: chainId, tokens });
+    if (chainId === undefined) {
+        return { intents: [] };
     }
-    return { intents: Object.keys(single).length > 0 ? [single] : [] };
+
+    const intents: Record<string, string>[] = [];
+    for (const { tokenAddress, amount } of tokens) {
+        const liquidity = await tokenLiquidity(chainId, tokenAddress, data.body?.settlementLayers);
+        for (const [i, chunk] of chunkAmount(liquidity, amount).entries()) {
+            intents[i] = { ...intents[i], [tokenAddress]: chunk.toString() };
+        }
+    }
+    return { intents };
+};
+
+const parseAmount = (tokenAddress: string, amount: string): bigint => {
+    if (!/^\d+$/.test(amount)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Invalid amount ${amount} for token ${tokenAddress}`);
+    }
+    return BigInt(amount);
 };
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { Address, encodeAbiParameters, encodePacked, Hex, zeroAddress } from 'viem';
+import { getAddress, Hex, SignedAuthorization } from 'viem';
 import { jsonify, logRequest } from '../log';
 import {
     zGetIntentsByIdData,
@@ -10,9 +10,22 @@ import {
 } from '../gen/zod.gen';
 import { chainContexts } from '../chains';
 import { ApiError, sendError } from '../errors';
-import { getIntent, IntentRecord, saveIntent } from '../services/intentRepo';
-import { QuoteExecutionPlan, takeQuote } from '../services/quoteCache';
-import { toCaip2 } from '../caip2';
+import { findIntent, getIntent, IntentRecord, saveIntent } from '../services/intentRepo';
+import { startIntentLifecycle } from '../services/intentLifecycle';
+import { applyFailureRules } from '../services/failureRules';
+import {
+    consumeQuote,
+    getQuote,
+    isQuoteExpired,
+    QuoteExecutionPlan,
+    releaseQuote,
+    reserveQuote,
+} from '../services/quoteCache';
+import { fromCaip2, toCaip2 } from '../caip2';
+import { intentChainIds } from '../services/execution';
+import { tokenRequirements } from '../services/tokenRequirements';
+import { originChainIds, verifyIntentSignatures } from '../services/signatures';
+import { checkDelegations } from '../services/accountSetup';
 
 type SubmitData = z.infer<typeof zPostIntentsData>;
 type SubmitResponse = z.infer<typeof zPostIntentsResponse>;
@@ -33,15 +46,67 @@ export const postIntent = async (req: Request, resp: Response) => {
             throw new ApiError(400, 'VALIDATION_ERROR', 'Missing request body');
         }
 
-        const plan = takeQuote(body.intentId);
-        if (!plan) {
+        if (findIntent(body.intentId)) {
+            throw new ApiError(409, 'CONFLICT', `Intent ${body.intentId} has already been submitted`);
+        }
+
+        const quote = getQuote(body.intentId);
+        if (!quote) {
             throw new ApiError(404, 'NOT_FOUND', `No quote found for intentId ${body.intentId}`);
         }
+        if (isQuoteExpired(quote)) {
+            consumeQuote(body.intentId);
+            saveIntent(body.intentId, {
+                accountAddress: quote.plan.recipientAddress,
+                destinationChainId: quote.plan.destinationChainId,
+                status: 'EXPIRED',
+                claims: [],
+            });
+            throw new ApiError(
+                422,
+                'UNPROCESSABLE_CONTENT',
+                `Quote for intentId ${body.intentId} expired at ${quote.expiresAt}`,
+            );
+        }
 
-        const destinationSignature = body.signatures.destination as Hex;
-        const out = await executeQuote(body.intentId, plan, destinationSignature);
-        console.log('Response: ', jsonify(out));
-        resp.status(201).json(out);
+        // Reserved before the first await, so a concurrent submit of this quote
+        // or a sibling cannot pass validation too and start a second lifecycle
+        if (!reserveQuote(body.intentId, quote)) {
+            throw new ApiError(409, 'CONFLICT', `A quote of intent ${body.intentId} is already being submitted`);
+        }
+
+        try {
+            const originCount = originChainIds(quote.plan).length;
+            if (body.signatures.origin.length < originCount) {
+                throw new ApiError(
+                    400,
+                    'VALIDATION_ERROR',
+                    `Expected ${originCount} origin signatures, got ${body.signatures.origin.length}`,
+                );
+            }
+
+            await verifyIntentSignatures(body.intentId, quote.plan, body.signatures);
+
+            const unmet = await tokenRequirements(quote.plan);
+            if (Object.keys(unmet).length > 0) {
+                throw new ApiError(
+                    422,
+                    'UNPROCESSABLE_CONTENT',
+                    'Token requirements of the quote were not met before submission',
+                    { tokenRequirements: unmet },
+                );
+            }
+
+            const authorizations = parseAuthorizations(quote.plan, body.authorizations);
+            await checkDelegations(quote.plan, authorizations);
+
+            const destinationSignature = body.signatures.destination as Hex;
+            const out = submitIntent(body.intentId, quote.plan, destinationSignature, authorizations);
+            console.log('Response: ', jsonify(out));
+            resp.status(201).json(out);
+        } finally {
+            releaseQuote(body.intentId, quote);
+        }
     } catch (e) {
         console.log(e);
         sendError(resp, e);
@@ -52,14 +117,16 @@ export const getIntentStatus = async (req: Request, resp: Response) => {
     logRequest(req);
 
     try {
+        // Express surfaces `?full=true` as a string, the schema expects a boolean
+        const query = { ...req.query, full: toBoolean(req.query.full) };
         const data = zGetIntentsByIdData.parse({
             body: undefined,
             path: req.params,
-            query: req.query,
+            query,
             headers: req.headers,
         });
         const intent = getIntent(data.path.id);
-        const out = toStatusResponse(intent);
+        const out = data.query?.full ? toFullResponse(intent) : toStatusResponse(intent);
         console.log('Response: ', jsonify(out));
         resp.status(200).json(out);
     } catch (e) {
@@ -82,131 +149,124 @@ const toStatusResponse = (intent: IntentRecord): IntentStatusResponse => ({
     })),
 });
 
-const executeQuote = async (
+/**
+ * The status response plus everything needed to debug the intent: the plan it
+ * executes, every transaction sent per chain, the decoded revert of a failure
+ * and the timeline of status transitions.
+ */
+const toFullResponse = (intent: IntentRecord) => ({
+    ...toStatusResponse(intent),
+    plan: intent.plan && toPlanView(intent.plan),
+    transactions: Object.fromEntries(
+        Object.entries(intent.transactions ?? {}).map(([chainId, txs]) => [toCaip2(Number(chainId)), txs]),
+    ),
+    fillGas: intent.fillGas && {
+        limit: intent.fillGas.limit?.toString(),
+        used: intent.fillGas.used.toString(),
+        effectiveGasPrice: intent.fillGas.effectiveGasPrice.toString(),
+    },
+    failure: intent.failure && {
+        stage: intent.failure.stage,
+        chainId: intent.failure.chainId !== undefined ? toCaip2(intent.failure.chainId) : undefined,
+        index: intent.failure.index,
+        reason: intent.failure.message,
+        revertData: intent.failure.revertData,
+    },
+    timeline: intent.timeline ?? [],
+});
+
+const toPlanView = (plan: QuoteExecutionPlan) => {
+    const toInput = (input: QuoteExecutionPlan['inputs'][number]) => ({
+        chainId: toCaip2(input.chainId),
+        tokenAddress: input.tokenAddress,
+        amount: input.amount.toString(),
+    });
+    return {
+        accountAddress: plan.accountAddress,
+        recipientAddress: plan.recipientAddress,
+        destinationChainId: toCaip2(plan.destinationChainId),
+        settlementLayer: plan.settlementLayer,
+        nonce: plan.nonce.toString(),
+        executionFlow: plan.executionFlow,
+        tokenRequests: plan.tokenRequests.map((t) => ({ tokenAddress: t.tokenAddress, amount: t.amount.toString() })),
+        inputs: plan.inputs.map(toInput),
+        feeInput: plan.feeInput && toInput(plan.feeInput),
+        destinationOps: plan.destinationOps.map((op) => ({ ...op, value: op.value.toString() })),
+        setupOps: plan.setupOps,
+        preClaimOps: Object.fromEntries(
+            Object.entries(plan.preClaimOps).map(([chainId, ops]) => [
+                toCaip2(Number(chainId)),
+                ops.map((op) => ({ ...op, value: op.value.toString() })),
+            ]),
+        ),
+        accountSetup: (plan.accountSetup ?? []).map((step) => ({ ...step, chainId: toCaip2(step.chainId) })),
+        destinationGasLimit: plan.destinationGasLimit?.toString(),
+    };
+};
+
+const toBoolean = (v: unknown): unknown => (v === 'true' ? true : v === 'false' ? false : v);
+
+const submitIntent = (
     intentId: string,
     plan: QuoteExecutionPlan,
     destinationSignature: Hex,
-): Promise<SubmitResponse> => {
+    authorizations: SignedAuthorization[],
+): SubmitResponse => {
     const executor = chainContexts()[plan.destinationChainId];
     if (!executor) {
         throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported destination chain ${plan.destinationChainId}`);
     }
 
-    const hasDestinationOps = plan.destinationOps.length > 0;
+    const usesIntentExecutor = plan.executionFlow === 'intentExecutor';
     const hasValidSignature = destinationSignature && destinationSignature !== '0x' && !isFakeSignature(destinationSignature);
 
-    if (hasDestinationOps && !hasValidSignature) {
+    if (usesIntentExecutor && !hasValidSignature) {
         throw new ApiError(400, 'VALIDATION_ERROR', 'Destination signature required for destination operations');
     }
 
-    const txHash = hasDestinationOps
-        ? await executeIntentExecutorFlow(plan, destinationSignature)
-        : await executeLegacyFlow(plan);
-
-    saveIntent(intentId, {
-        accountAddress: plan.recipientAddress,
+    const forcedStatus = applyFailureRules({
+        endpoint: 'intent',
+        account: plan.accountAddress,
         destinationChainId: plan.destinationChainId,
-        status: 'COMPLETED',
-        fillTimestamp: Math.floor(Date.now() / 1000),
-        fillTransactionHash: txHash,
-        claims: [],
+        tokens: plan.tokenRequests,
     });
 
-    return { intentId };
-};
-
-const executeLegacyFlow = async (plan: QuoteExecutionPlan): Promise<Hex> => {
-    const executor = chainContexts()[plan.destinationChainId];
-    const setupCalls = plan.setupOps.map((op) => ({ to: op.to, callData: op.data }));
-
-    const tokenTransferCalls = plan.tokenRequests
-        .filter((t) => t.tokenAddress !== zeroAddress)
-        .map((t) => ({
-            to: t.tokenAddress,
-            callData: executor.transfer(plan.recipientAddress, t.amount),
-        }));
-
-    const nativeTransferValue = plan.tokenRequests
-        .filter((t) => t.tokenAddress === zeroAddress)
-        .reduce((acc, t) => acc + t.amount, 0n);
+    consumeQuote(intentId);
+    startIntentLifecycle(intentId, plan, destinationSignature, authorizations, forcedStatus);
 
-    const executions = [...setupCalls, ...tokenTransferCalls];
-
-    if (executions.length === 0 && nativeTransferValue === 0n) {
-        return ('0x' + '00'.repeat(32)) as Hex;
-    }
-
-    // FakeRouter.mockFill is non-payable, so native value cannot ride along with
-    // the ERC-20 batch. When both are present, run the router batch first and
-    // then a direct native transfer, returning the latter's hash as the fill tx.
-    if (executions.length > 0) {
-        const txCallData = await executor.callFakeRouter(executions);
-        const routerHash = await executor.execute({ ...txCallData, value: 0n });
-        if (nativeTransferValue === 0n) return routerHash;
-    }
-
-    return executor.execute({
-        to: plan.recipientAddress,
-        callData: '0x' as Hex,
-        value: nativeTransferValue,
-    });
+    return { intentId };
 };
 
-const executeIntentExecutorFlow = async (plan: QuoteExecutionPlan, destinationSignature: Hex): Promise<Hex> => {
-    const executor = chainContexts()[plan.destinationChainId];
-
-    const setupCalls = plan.setupOps.map((op) => ({ to: op.to, callData: op.data }));
-
-    const tokenTransferCalls = plan.tokenRequests
-        .filter((t) => t.tokenAddress !== zeroAddress)
-        .map((t) => ({
-            to: t.tokenAddress,
-            callData: executor.transfer(plan.recipientAddress, t.amount),
-        }));
-
-    const nativeTransferValue = plan.tokenRequests
-        .filter((t) => t.tokenAddress === zeroAddress)
-        .reduce((acc, t) => acc + t.amount, 0n);
-
-    const opsData = encodeDestinationOps(plan.destinationOps);
-
-    const routerCalls = [
-        ...setupCalls,
-        ...tokenTransferCalls,
-        executor.intentExecutorCall(plan.accountAddress, plan.nonce, opsData, destinationSignature),
-    ];
-
-    const txCallData = await executor.callFakeRouter(routerCalls);
-    const routerHash = await executor.execute({ ...txCallData, value: 0n });
-
-    if (nativeTransferValue === 0n) return routerHash;
-
-    return executor.execute({
-        to: plan.recipientAddress,
-        callData: '0x' as Hex,
-        value: nativeTransferValue,
+/**
+ * Signed 7702 tuples of the sponsor and the recipient. Each one has to target a
+ * chain the intent sends transactions on, or chain id 0 for every chain.
+ */
+const parseAuthorizations = (
+    plan: QuoteExecutionPlan,
+    authorizations: NonNullable<SubmitData['body']>['authorizations'],
+): SignedAuthorization[] => {
+    const chainIds = intentChainIds(plan);
+    return [...(authorizations?.sponsor ?? []), ...(authorizations?.recipient ?? [])].map((auth) => {
+        const chainId = fromCaip2(auth.chainId);
+        if (chainId !== 0 && !chainIds.includes(chainId)) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                `Authorization for ${auth.address} targets chain ${auth.chainId}, which the intent does not use`,
+                { chainIds: chainIds.map(toCaip2) },
+            );
+        }
+        return {
+            address: getAddress(auth.address),
+            chainId,
+            nonce: auth.nonce,
+            yParity: auth.yParity,
+            r: auth.r as Hex,
+            s: auth.s as Hex,
+        };
     });
 };
 
-const encodeDestinationOps = (ops: { to: Address; value: bigint; data: Hex }[]): Hex => {
-    const execType = 0x02;
-    const sigMode = 0x01;
-    const encoded = encodeAbiParameters(
-        [
-            {
-                type: 'tuple[]',
-                components: [
-                    { type: 'address', name: 'to' },
-                    { type: 'uint256', name: 'value' },
-                    { type: 'bytes', name: 'data' },
-                ],
-            },
-        ],
-        [ops],
-    );
-    return encodePacked(['uint8', 'uint8', 'bytes'], [execType, sigMode, encoded]);
-};
-
 const isFakeSignature = (signature: Hex): boolean => {
     if (!signature || signature === '0x') return true;
     return /^0+$/.test(signature.slice(2));
@@ -1,27 +1,34 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Address } from 'viem';
 import { jsonify, logRequest } from '../log';
 import { zGetLiquidityData, zGetLiquidityResponse } from '../gen/zod.gen';
-import { sendError } from '../errors';
+import { ApiError, sendError } from '../errors';
+import { fromCaip2 } from '../caip2';
+import { AmountSchema } from '../chains';
+import { applyFailureRules } from '../services/failureRules';
+import { clearLiquidityOverrides, resolveToken, setLiquidityOverride, tokenLiquidity } from '../services/liquidity';
+import { enabledBridgeLayers, SettlementLayer } from '../services/settlementLayers';
 
+type LiquidityData = z.infer<typeof zGetLiquidityData>;
 type LiquidityResponse = z.infer<typeof zGetLiquidityResponse>;
 
 export const liquidity = async (req: Request, resp: Response) => {
     logRequest(req);
 
     try {
-        zGetLiquidityData.parse({
+        const data = zGetLiquidityData.parse({
             body: undefined,
             path: undefined,
             query: req.query,
             headers: req.headers,
         });
-        const out: LiquidityResponse = {
-            symbol: 'MOCK',
-            decimals: 18,
-            unlimited: true,
-            maxAmount: null,
-        };
+        applyFailureRules({
+            endpoint: 'liquidity',
+            destinationChainId: fromCaip2(data.query.destinationChainId),
+            tokens: [{ tokenAddress: data.query.destinationToken as Address }],
+        });
+        const out = await routeLiquidity(data);
         console.log('Response: ', jsonify(out));
         resp.status(200).json(out);
     } catch (e) {
@@ -29,3 +36,64 @@ export const liquidity = async (req: Request, resp: Response) => {
         sendError(resp, e);
     }
 };
+
+/**
+ * Liquidity of the destination token for a route from the source token. Uses
+ * the same limits the quote enforces: a cross-chain route may settle through
+ * any enabled bridge, so the most generous bridge limit applies.
+ */
+const routeLiquidity = async (data: LiquidityData): Promise<LiquidityResponse> => {
+    const sourceChainId = fromCaip2(data.query.sourceChainId);
+    const destinationChainId = fromCaip2(data.query.destinationChainId);
+    const source = resolveToken(sourceChainId, data.query.sourceToken);
+    const destination = resolveToken(destinationChainId, data.query.destinationToken);
+    if (source.symbol !== destination.symbol) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported pair ${source.symbol} to ${destination.symbol}`, {
+            sourceChainId: data.query.sourceChainId,
+            destinationChainId: data.query.destinationChainId,
+        });
+    }
+
+    const layers: SettlementLayer[] = sourceChainId === destinationChainId ? ['INTENT_EXECUTOR'] : enabledBridgeLayers();
+    const { symbol, decimals, maxAmount } = await tokenLiquidity(destinationChainId, destination.tokenAddress, layers);
+    return {
+        symbol,
+        decimals,
+        unlimited: maxAmount === undefined,
+        maxAmount: maxAmount === undefined ? null : maxAmount.toString(),
+    };
+};
+
+const LiquidityCapBodySchema = z.object({
+    chainId: z.string().regex(/^eip155:\d+$/).transform(fromCaip2),
+    // Token symbol or address on that chain
+    token: z.string(),
+    // `null` lifts the cap, including the configured one
+    maxAmount: AmountSchema.nullable(),
+});
+
+export const postLiquidityCap = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = LiquidityCapBodySchema.parse(req.body);
+        const out = setLiquidityOverride(body.chainId, body.token, body.maxAmount);
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const deleteLiquidityCaps = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        clearLiquidityOverrides();
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
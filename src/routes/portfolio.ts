@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { getAddress } from 'viem';
+import { Address, getAddress } from 'viem';
 import { z } from 'zod';
 import { jsonify, logRequest } from '../log';
 import {
@@ -7,11 +7,16 @@ import {
     zGetAccountsByAccountAddressPortfolioResponse,
 } from '../gen/zod.gen';
 import { chainContexts } from '../chains';
-import { sendError } from '../errors';
+import { ApiError, sendError } from '../errors';
 import { fromCaip2, toCaip2 } from '../caip2';
+import { roundUsd, tokenPrice } from '../services/pricing';
 
 type PortfolioRequestData = z.infer<typeof zGetAccountsByAccountAddressPortfolioData>;
-type PortfolioResponse = z.infer<typeof zGetAccountsByAccountAddressPortfolioResponse>;
+// Chain entries carry their USD value when the token has a price
+type PortfolioResponse = {
+    portfolio: (Omit<PortfolioEntry, 'chains'> & { chains: (PortfolioEntry['chains'][number] & { usd?: number })[] })[];
+};
+type PortfolioEntry = z.infer<typeof zGetAccountsByAccountAddressPortfolioResponse>['portfolio'][number];
 
 const toArray = (v: unknown): string[] | undefined => {
     if (v === undefined) return undefined;
@@ -37,7 +42,7 @@ export const portfolio = async (req: Request, resp: Response) => {
             query,
             headers: req.headers,
         });
-        const body = await getPortfolio(params);
+        const body = await coalesced(params);
         console.log('Response: ', jsonify(body));
         resp.status(200).json(body);
     } catch (e) {
@@ -46,16 +51,69 @@ export const portfolio = async (req: Request, resp: Response) => {
     }
 };
 
+// Identical requests share one read of the forks while it is in flight
+const inFlight = new Map<string, Promise<PortfolioResponse>>();
+
+const coalesced = (params: PortfolioRequestData): Promise<PortfolioResponse> => {
+    const key = JSON.stringify([
+        getAddress(params.path.accountAddress),
+        params.query?.chainIds?.map(fromCaip2).sort(),
+        params.query?.tokens?.map((t) => t.toLowerCase()).sort(),
+        params.query?.filterEmpty ?? false,
+    ]);
+    let pending = inFlight.get(key);
+    if (!pending) {
+        pending = getPortfolio(params).finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+    }
+    return pending;
+};
+
+/** Token addresses requested per chain id, undefined when not filtering by token. */
+const tokenFilter = (tokens: string[] | undefined): Map<number, Address[]> | undefined => {
+    if (!tokens) return undefined;
+    const byChain = new Map<number, Address[]>();
+    for (const token of tokens) {
+        const [namespace, reference, address] = token.split(':');
+        const chainId = fromCaip2(`${namespace}:${reference}`);
+        if (!chainContexts()[chainId]) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported chain in token filter ${token}`);
+        }
+        byChain.set(chainId, [...(byChain.get(chainId) ?? []), getAddress(address)]);
+    }
+    return byChain;
+};
+
+/**
+ * Balances of the account across the supported chains, grouped by symbol.
+ * With a token filter only the listed tokens are reported, and listed tokens
+ * missing from the chain's token table are read from the chain on demand.
+ */
 const getPortfolio = async (params: PortfolioRequestData): Promise<PortfolioResponse> => {
     const accountAddress = getAddress(params.path.accountAddress);
     const filterChainIds = params.query?.chainIds?.map(fromCaip2);
+    const filterTokens = tokenFilter(params.query?.tokens);
     const filterEmpty = params.query?.filterEmpty ?? false;
 
-    const contexts = Object.values(chainContexts()).filter((ctx) =>
-        filterChainIds ? filterChainIds.includes(ctx.chainId) : true,
+    const contexts = Object.values(chainContexts()).filter(
+        (ctx) =>
+            (!filterChainIds || filterChainIds.includes(ctx.chainId)) &&
+            (!filterTokens || filterTokens.has(ctx.chainId)),
     );
     const balancesPerChain = await Promise.all(
-        contexts.map(async (ctx) => ctx.balanceOf(accountAddress, ctx.supportedTokens())),
+        contexts.map(async (ctx) => {
+            const requested = filterTokens?.get(ctx.chainId);
+            if (!requested) {
+                return ctx.balanceOf(accountAddress, ctx.supportedTokens());
+            }
+            const known = requested.map((token) => ctx.tokenSymbol(token)).filter((symbol) => symbol !== undefined);
+            const unknown = requested.filter((token) => ctx.tokenSymbol(token) === undefined);
+            const [knownBalances, unknownBalances] = await Promise.all([
+                known.length > 0 ? ctx.balanceOf(accountAddress, [...new Set(known)]) : [],
+                unknown.length > 0 ? ctx.erc20Balances(accountAddress, [...new Set(unknown)]) : [],
+            ]);
+            return [...knownBalances, ...unknownBalances];
+        }),
     );
 
     const bySymbol = new Map<string, PortfolioResponse['portfolio'][number]>();
@@ -68,11 +126,13 @@ const getPortfolio = async (params: PortfolioRequestData): Promise<PortfolioResp
                 entry = { symbol: balance.symbol, chains: [] };
                 bySymbol.set(balance.symbol, entry);
             }
+            const price = tokenPrice(balance.symbol);
             entry.chains.push({
                 chainId: toCaip2(balance.chainId),
                 address: balance.token,
                 decimals: balance.decimals,
                 amount: balance.amount.toString(),
+                usd: price === undefined ? undefined : roundUsd((Number(balance.amount) / 10 ** balance.decimals) * price),
             });
         }
     }
@@ -4,15 +4,36 @@ import { randomBytes } from 'crypto';
 import { z } from 'zod';
 import { jsonify, logRequest } from '../log';
 import { zPostQuotesData, zPostQuotesResponse } from '../gen/zod.gen';
+import { fromCaip2, isCaip2, toCaip2 } from '../caip2';
 import { chainContexts } from '../chains';
-import { fromCaip2, toCaip2 } from '../caip2';
+import { selectFeeInput, selectSources } from '../services/sourceSelection';
 import { ApiError, sendError } from '../errors';
-import { saveQuote } from '../services/quoteCache';
+import { QuoteExecutionPlan, saveQuotes } from '../services/quoteCache';
+import { applyFailureRules } from '../services/failureRules';
+import {
+    applySponsorship,
+    computeFees,
+    costEntry,
+    FeeComponent,
+    feeAmounts,
+    RouteFees,
+    roundUsd,
+    tokenPrice,
+    usdToTokenAmount,
+} from '../services/pricing';
+import { buildBridgeFill } from '../services/bridgeFills';
+import { tokenRequirements } from '../services/tokenRequirements';
+import { buildSignData, originChainIds } from '../services/signatures';
+import { ExecutionError, simulateIntent } from '../services/execution';
+import { resolveAccountSetup } from '../services/accountSetup';
+import { assertLiquidity } from '../services/liquidity';
+import { enabledBridgeLayers, fillTimeSeconds, rankRoutes, SettlementLayer } from '../services/settlementLayers';
 
 type QuoteRequestData = z.infer<typeof zPostQuotesData>;
 type QuoteResponseData = z.infer<typeof zPostQuotesResponse>;
 type QuoteRequestBody = NonNullable<QuoteRequestData['body']>;
-type AccountAccessList = NonNullable<QuoteRequestBody['accountAccessList']>;
+type RouteCost = QuoteResponseData['routes'][number]['cost'];
+type FeeAmount = RouteCost['fees']['total'] & { sponsored?: boolean };
 
 export const quote = async (req: Request, resp: Response) => {
     logRequest(req);
@@ -37,19 +58,43 @@ export const quote = async (req: Request, resp: Response) => {
     }
 };
 
+type PricedRoute = {
+    settlementLayer: SettlementLayer;
+    inputs: QuoteExecutionPlan['inputs'];
+    feeInput?: QuoteExecutionPlan['feeInput'];
+    fees: RouteFees;
+    feeUsd: number;
+    fillTimeSeconds: number;
+};
+
 const buildQuoteResponse = async (body: QuoteRequestBody): Promise<QuoteResponseData> => {
     const destinationChainId = fromCaip2(body.destinationChainId);
-    const sourceChainId = pickSourceChain(body.accountAccessList, destinationChainId);
     const accountAddress = getAddress(body.account.address);
     const recipientAddress = body.recipient ? getAddress(body.recipient.address) : accountAddress;
 
-    const settlementLayer = sourceChainId === destinationChainId ? 'INTENT_EXECUTOR' : 'ACROSS';
-
     const tokenRequests = body.tokenRequests.map((req) => ({
         tokenAddress: getAddress(req.tokenAddress) as Address,
         amount: BigInt(req.amount ?? '0'),
     }));
 
+    applyFailureRules({ endpoint: 'quote', account: accountAddress, destinationChainId, tokens: tokenRequests });
+
+    const options = body.options;
+    const feeToken = options?.feeToken;
+    if (feeToken && tokenPrice(feeToken) === undefined) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `No price configured for fee token ${feeToken}`);
+    }
+
+    const select = (requests: typeof tokenRequests) =>
+        selectSources({
+            account: accountAddress,
+            destinationChainId,
+            tokenRequests: requests,
+            accessList: body.accountAccessList,
+        });
+    const outputs = tokenRequests.map((req) => ({ chainId: destinationChainId, ...req }));
+    const isSameChain = (inputs: QuoteExecutionPlan['inputs']) => inputs.every((i) => i.chainId === destinationChainId);
+
     const destinationOps = (body.destinationExecutions ?? []).map((op) => ({
         to: getAddress(op.to) as Address,
         value: BigInt(op.value),
@@ -61,132 +106,243 @@ const buildQuoteResponse = async (body: QuoteRequestBody): Promise<QuoteResponse
         data: op.data as Hex,
     }));
 
-    const intentId = generateIntentId();
-    const nonce = BigInt(intentId);
+    const destinationGasLimit = parseGasLimit(body.destinationGasLimit);
 
-    saveQuote(intentId, {
-        accountAddress,
-        recipientAddress,
-        sourceChainId,
-        destinationChainId,
-        tokenRequests,
-        destinationOps,
-        setupOps,
-        settlementLayer,
-        nonce,
-    });
+    const preClaimOps: QuoteExecutionPlan['preClaimOps'] = {};
+    for (const [caip2, ops] of Object.entries(body.preClaimExecutions ?? {})) {
+        if (!isCaip2(caip2) || !chainContexts()[fromCaip2(caip2)]) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported preClaimExecutions chain ${caip2}`);
+        }
+        preClaimOps[fromCaip2(caip2)] = ops.map((op) => ({
+            to: getAddress(op.to) as Address,
+            value: BigInt(op.value),
+            data: op.data as Hex,
+        }));
+    }
+
+    const delegations: Record<number, Address> = {};
+    for (const [caip2, delegation] of Object.entries(body.account.delegations ?? {})) {
+        if (!isCaip2(caip2) || !chainContexts()[fromCaip2(caip2)]) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported delegations chain ${caip2}`);
+        }
+        delegations[fromCaip2(caip2)] = getAddress(delegation.contract);
+    }
 
-    const expiresAt = Math.floor(Date.now() / 1000) + 3600;
-    const signData = buildSignData(sourceChainId, destinationChainId, accountAddress, intentId);
+    // Every route gets its own intent id, and submitting one of them
+    // invalidates the others
+    const respond = async (routes: PricedRoute[]): Promise<QuoteResponseData['routes']> => {
+        const plans: { intentId: string; plan: QuoteExecutionPlan }[] = [];
+        for (const route of routes) {
+            assertPreClaimOrigins(preClaimOps, route);
+            const intentId = generateIntentId();
+            const draftPlan = {
+                accountAddress,
+                recipientAddress,
+                destinationChainId,
+                tokenRequests,
+                inputs: route.inputs,
+                feeInput: route.feeInput,
+                destinationOps,
+                preClaimOps,
+                setupOps,
+                destinationGasLimit,
+                settlementLayer: route.settlementLayer,
+                nonce: BigInt(intentId),
+            };
+            const setup = await resolveAccountSetup(draftPlan, {
+                accountType: body.account.accountType,
+                delegations,
+            });
+            plans.push({ intentId, plan: { ...draftPlan, ...setup } });
+        }
+        if (body.account.mockSignatures) {
+            for (const { plan } of plans) {
+                await simulate(plan, body.account.mockSignatures);
+            }
+        }
 
-    return {
-        routes: [
-            {
-                intentId,
+        const expiresAt = saveQuotes(plans);
+        const intentIds = plans.map((p) => p.intentId);
+        const requirements = await Promise.all(plans.map(({ plan }) => tokenRequirements(plan)));
+
+        return routes.map((route, i) => {
+            const origins = originChainIds(plans[i].plan);
+            return {
+                intentId: intentIds[i],
                 expiresAt,
-                estimatedFillTime: { seconds: settlementLayer === 'INTENT_EXECUTOR' ? 1 : 5 },
-                settlementLayer,
-                signData,
-                cost: buildMockCost(destinationChainId, sourceChainId, tokenRequests),
-            },
-        ],
+                estimatedFillTime: { seconds: route.fillTimeSeconds },
+                settlementLayer: route.settlementLayer,
+                signData: buildSignData(origins, destinationChainId, accountAddress, intentIds[i]),
+                cost: buildCost(outputs, route.feeInput ? [...route.inputs, route.feeInput] : route.inputs, route.fees),
+                tokenRequirements: Object.keys(requirements[i]).length > 0 ? requirements[i] : undefined,
+                bridgeFill: buildBridgeFill(route.settlementLayer, {
+                    intentId: intentIds[i],
+                    originChainIds: origins,
+                    destinationChainId,
+                }),
+            };
+        });
     };
-};
 
-const generateIntentId = (): string => {
-    const max = 1n << 128n;
-    const value = (BigInt('0x' + randomBytes(16).toString('hex')) % (max - 1n)) + 1n;
-    return value.toString();
-};
+    const draft = await select(tokenRequests);
 
-const buildSignData = (
-    sourceChainId: number,
-    destinationChainId: number,
-    accountAddress: Address,
-    intentId: string,
-): QuoteResponseData['routes'][number]['signData'] => {
-    const types = {
-        Intent: [
-            { name: 'account', type: 'address' },
-            { name: 'intentId', type: 'uint256' },
-        ],
-    };
-    const message = { account: accountAddress, intentId };
-    const verifyingContract = '0x0000000000000000000000000000000000000000';
-
-    // Despite the OpenAPI spec showing `domain.chainId` as a CAIP-2 string, the
-    // SDK feeds the domain straight into viem's `hashDomain` (uint256), so the
-    // production server actually emits a numeric chainId here.
-    const buildTyped = (chainId: number) => ({
-        domain: {
-            name: 'Mockestrator',
-            version: '1',
-            chainId: chainId as unknown as string,
-            verifyingContract,
-        },
-        types,
-        primaryType: 'Intent',
-        message,
-    });
+    const priceRoute = async (settlementLayer: SettlementLayer): Promise<PricedRoute> => {
+        await assertLiquidity(destinationChainId, tokenRequests, settlementLayer);
+        const fees = applySponsorship(
+            computeFees(settlementLayer, destinationChainId, outputs, draft),
+            options?.sponsorSettings,
+        );
 
-    return {
-        origin: [buildTyped(sourceChainId)],
-        destination: buildTyped(destinationChainId),
+        // Without a fee token the fees are paid on top of the output, so the
+        // sources are re-selected to cover output plus fees. This can still fail
+        // once fees are included. A fee token is charged as a separate input instead.
+        let inputs = draft;
+        let feeInput: QuoteExecutionPlan['feeInput'];
+        if (feeToken) {
+            if (fees.total > 0) {
+                feeInput = await selectFeeInput(
+                    accountAddress,
+                    feeToken,
+                    (chainId, tokenAddress) => usdToTokenAmount(fees.total, chainId, tokenAddress),
+                    draft,
+                    destinationChainId,
+                );
+            }
+        } else {
+            const shares = feeAmounts(fees.total, outputs);
+            if (shares.some((share) => share > 0n)) {
+                inputs = await select(tokenRequests.map((req, i) => ({ ...req, amount: req.amount + shares[i] })));
+            }
+        }
+        return {
+            settlementLayer,
+            inputs,
+            feeInput,
+            fees,
+            feeUsd: fees.total,
+            fillTimeSeconds: fillTimeSeconds(settlementLayer),
+        };
     };
-};
 
-const buildMockCost = (
-    destinationChainId: number,
-    sourceChainId: number,
-    tokenRequests: { tokenAddress: Address; amount: bigint }[],
-): QuoteResponseData['routes'][number]['cost'] => {
-    const output = tokenRequests.map((req) => ({
-        chainId: toCaip2(destinationChainId),
-        tokenAddress: req.tokenAddress,
-        symbol: null,
-        decimals: null,
-        price: null,
-        amount: req.amount.toString(),
-    }));
-    const input = tokenRequests.map((req) => ({
-        chainId: toCaip2(sourceChainId),
-        tokenAddress: req.tokenAddress,
-        symbol: null,
-        decimals: null,
-        price: null,
-        amount: req.amount.toString(),
-    }));
-    return {
-        input,
-        output,
-        fees: {
-            total: { usd: 0 },
-            breakdown: {
-                gas: { usd: 0 },
-                bridge: { usd: 0 },
-                protocol: { usd: 0 },
-                swap: { usd: 0 },
-                settlement: { usd: 0 },
-            },
-        },
-    };
+    const requested = options?.settlementLayers;
+
+    // A same-chain intent is only filled by the intent executor, unless paying
+    // the fees forces part of the input onto another chain. Clients can only
+    // request bridge layers, so any requested set rules the intent executor out.
+    if (isSameChain(draft)) {
+        if (requested) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'None of the requested settlement layers are available', {
+                requested,
+                available: ['INTENT_EXECUTOR'],
+            });
+        }
+        const route = await priceRoute('INTENT_EXECUTOR');
+        if (isSameChain(route.inputs)) {
+            return { routes: await respond([route]) };
+        }
+    }
+
+    const layers = enabledBridgeLayers().filter((layer) => !requested || requested.includes(layer));
+    if (layers.length === 0) {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'None of the requested settlement layers are available', {
+            requested,
+            available: enabledBridgeLayers(),
+        });
+    }
+
+    // Layers that cannot cover their own fees are dropped, unless none can
+    const priced: PricedRoute[] = [];
+    let firstError: unknown;
+    for (const layer of layers) {
+        try {
+            priced.push(await priceRoute(layer));
+        } catch (e) {
+            firstError ??= e;
+        }
+    }
+    if (priced.length === 0) {
+        throw firstError;
+    }
+
+    return { routes: await respond(rankRoutes(priced, options?.selectionStrategy)) };
 };
 
-const pickSourceChain = (list: AccountAccessList | undefined, fallback: number): number => {
-    if (!list) {
-        const first = Object.keys(chainContexts())[0];
-        return first ? parseInt(first) : fallback;
+/**
+ * Dry-runs the plan with the caller's placeholder signatures, keyed by CAIP-2
+ * chain id, so broken executions are reported before anything is signed.
+ */
+const simulate = async (plan: QuoteExecutionPlan, mockSignatures: Record<string, string>) => {
+    const destinationSignature = mockSignatures[toCaip2(plan.destinationChainId)] as Hex | undefined;
+    if (!destinationSignature && plan.executionFlow === 'intentExecutor') {
+        throw new ApiError(
+            400,
+            'VALIDATION_ERROR',
+            `mockSignatures has no signature for destination chain ${toCaip2(plan.destinationChainId)}`,
+        );
     }
-    if (list.chainIds && list.chainIds.length > 0) {
-        return fromCaip2(list.chainIds[0]);
+
+    try {
+        await simulateIntent(plan, destinationSignature ?? '0x');
+    } catch (e) {
+        if (!(e instanceof ExecutionError)) throw e;
+        throw new ApiError(422, 'SETTLEMENT_QUOTE_ERROR', `Simulation of the ${e.stage} calls reverted: ${e.message}`, {
+            stage: e.stage,
+            chainId: toCaip2(e.chainId),
+            index: e.index,
+            reason: e.message,
+        });
     }
-    if (list.chainTokens) {
-        const keys = Object.keys(list.chainTokens);
-        if (keys.length > 0) return fromCaip2(keys[0]);
+};
+
+// Pre-claim executions run ahead of a claim, so they can only target chains the route sources from
+const assertPreClaimOrigins = (preClaimOps: QuoteExecutionPlan['preClaimOps'], route: PricedRoute) => {
+    const origins = [...new Set([...route.inputs, ...(route.feeInput ? [route.feeInput] : [])].map((i) => i.chainId))];
+    const unused = Object.keys(preClaimOps)
+        .map(Number)
+        .filter((chainId) => !origins.includes(chainId));
+    if (unused.length > 0) {
+        throw new ApiError(
+            400,
+            'VALIDATION_ERROR',
+            `preClaimExecutions target ${unused.map(toCaip2).join(', ')}, which the route does not source from`,
+            { originChainIds: origins.map(toCaip2) },
+        );
     }
-    if (list.chainTokenAmounts) {
-        const keys = Object.keys(list.chainTokenAmounts);
-        if (keys.length > 0) return fromCaip2(keys[0]);
+};
+
+const parseGasLimit = (value: string | undefined): bigint | undefined => {
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value) || BigInt(value) < 21_000n) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Invalid destinationGasLimit ${value}`);
     }
-    return fallback;
+    return BigInt(value);
+};
+
+const generateIntentId = (): string => {
+    const max = 1n << 128n;
+    const value = (BigInt('0x' + randomBytes(16).toString('hex')) % (max - 1n)) + 1n;
+    return value.toString();
+};
+
+const buildCost = (
+    outputs: QuoteExecutionPlan['inputs'],
+    inputs: QuoteExecutionPlan['inputs'],
+    fees: RouteFees,
+): RouteCost => {
+    const feeAmount = (component: FeeComponent): FeeAmount =>
+        fees.sponsored.includes(component)
+            ? { usd: 0, sponsored: true }
+            : { usd: roundUsd(fees.breakdown[component]) };
+    const breakdown: Record<FeeComponent, FeeAmount> = {
+        gas: feeAmount('gas'),
+        bridge: feeAmount('bridge'),
+        protocol: feeAmount('protocol'),
+        swap: feeAmount('swap'),
+        settlement: feeAmount('settlement'),
+    };
+    return {
+        input: inputs.map(costEntry),
+        output: outputs.map(costEntry),
+        fees: { total: { usd: roundUsd(fees.total) }, breakdown },
+    };
 };
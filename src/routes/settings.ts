@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { jsonify, logRequest } from '../log';
+import { sendError } from '../errors';
+import { quoteTtlSeconds, setQuoteTtl, sweepQuotes } from '../services/quoteCache';
+import { setStrictSignatures, strictSignatures } from '../services/signatures';
+
+const StrictSignaturesBodySchema = z.object({
+    strict: z.boolean(),
+});
+
+const QuoteTtlBodySchema = z.object({
+    ttlSeconds: z.number().int().positive(),
+});
+
+export const postQuoteTtl = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = QuoteTtlBodySchema.parse(req.body);
+        setQuoteTtl(body.ttlSeconds);
+        const out = { ttlSeconds: quoteTtlSeconds() };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const deleteQuoteTtl = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        setQuoteTtl(undefined);
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+// Runs the quote sweeper now, so tests need not wait for its interval
+export const postQuoteSweep = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const out = { swept: sweepQuotes() };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const postStrictSignatures = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const body = StrictSignaturesBodySchema.parse(req.body);
+        setStrictSignatures(body.strict);
+        const out = { strict: strictSignatures() };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const deleteStrictSignatures = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        setStrictSignatures(undefined);
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { jsonify, logRequest } from '../log';
+import { sendError } from '../errors';
+import { resetToBootState, restoreSnapshot, takeSnapshot } from '../services/snapshots';
+
+export const postSnapshot = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const out = await takeSnapshot();
+        console.log('Response: ', jsonify(out));
+        resp.status(201).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const postSnapshotRestore = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        const id = String(req.params.id);
+        await restoreSnapshot(id);
+        const out = { id };
+        console.log('Response: ', jsonify(out));
+        resp.status(200).json(out);
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
+
+export const postReset = async (req: Request, resp: Response) => {
+    logRequest(req);
+
+    try {
+        await resetToBootState();
+        resp.status(204).send();
+    } catch (e) {
+        console.log(e);
+        sendError(resp, e);
+    }
+};
@@ -0,0 +1,156 @@
+import { Address, encodeFunctionData, Hex, SignedAuthorization } from 'viem';
+import { verifyAuthorization } from 'viem/utils';
+import { ChainContext, chainContexts } from '../chains';
+import { erc7579AccountAbi, MODULE_TYPE_EXECUTOR } from '../abi/erc7579Account';
+import { INTENT_EXECUTOR_ADDRESS } from '../abi/intentExecutor';
+import { ApiError } from '../errors';
+import { toCaip2 } from '../caip2';
+import { ExecutionError, intentChainIds } from './execution';
+import { QuoteExecutionPlan } from './quoteCache';
+
+export type AccountType = 'GENERIC' | 'EOA' | 'ERC7579';
+export type AccountSetupStep = QuoteExecutionPlan['accountSetup'][number];
+
+type AccountOptions = {
+    accountType?: AccountType;
+    // 7702 delegation targets the account wants on each chain, keyed by chain id
+    delegations: Record<number, Address>;
+};
+
+/**
+ * Decides how the plan is filled and what the account needs on-chain first.
+ * Accounts that can run the intent executor on the destination fill through it:
+ * an EOA once it is delegated and a deployed ERC-7579 account once the executor
+ * module is installed, which becomes a setup step when it is missing. Others use
+ * the fake router unless they have destination ops, which need the executor.
+ * GENERIC accounts keep choosing by destination ops alone. Requested delegations
+ * that are not in place yet on a chain the intent touches become setup steps,
+ * delivered with the submitted authorizations.
+ */
+export async function resolveAccountSetup(
+    plan: Omit<QuoteExecutionPlan, 'executionFlow' | 'accountSetup'>,
+    options: AccountOptions,
+): Promise<Pick<QuoteExecutionPlan, 'executionFlow' | 'accountSetup'>> {
+    const account = plan.accountAddress;
+    const destination = plan.destinationChainId;
+    const chainIds = intentChainIds(plan);
+    const accountSetup: AccountSetupStep[] = [];
+
+    const codes = new Map<number, Awaited<ReturnType<ChainContext['accountCode']>>>();
+    for (const chainId of chainIds) {
+        codes.set(chainId, await chainContexts()[chainId].accountCode(account));
+    }
+
+    for (const chainId of chainIds) {
+        const contract = options.delegations[chainId];
+        if (contract && codes.get(chainId)!.delegation !== contract) {
+            if (codes.get(chainId)!.deployed) {
+                throw new ApiError(
+                    400,
+                    'VALIDATION_ERROR',
+                    `${account} is a deployed contract on ${toCaip2(chainId)} and cannot be delegated`,
+                );
+            }
+            accountSetup.push({ type: 'delegation', chainId, contract });
+        }
+    }
+
+    const code = codes.get(destination)!;
+    const hasOps = plan.destinationOps.length > 0;
+    const flow = (executionFlow: QuoteExecutionPlan['executionFlow']) => ({ executionFlow, accountSetup });
+
+    if (options.accountType === 'EOA') {
+        if (code.delegation) {
+            return flow('intentExecutor');
+        }
+        if (!hasOps) {
+            return flow('fakeRouter');
+        }
+        if (!options.delegations[destination]) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                `EOA ${account} needs a delegation on ${toCaip2(destination)} to run destination executions`,
+            );
+        }
+        return flow('intentExecutor');
+    }
+
+    if (options.accountType === 'ERC7579') {
+        if (code.deployed) {
+            const ctx = chainContexts()[destination];
+            if (!(await ctx.isModuleInstalled(account, MODULE_TYPE_EXECUTOR, INTENT_EXECUTOR_ADDRESS))) {
+                accountSetup.push({ type: 'installModule', chainId: destination, module: INTENT_EXECUTOR_ADDRESS });
+            }
+            return flow('intentExecutor');
+        }
+        if (!hasOps) {
+            return flow('fakeRouter');
+        }
+        if (plan.setupOps.length === 0) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                `ERC7579 account ${account} is not deployed on ${toCaip2(destination)} and no setupOps were given`,
+            );
+        }
+        return flow('intentExecutor');
+    }
+
+    return flow(hasOps ? 'intentExecutor' : 'fakeRouter');
+}
+
+/**
+ * Checks that every delegation the plan needs is covered by an authorization
+ * the account signed for that contract, on that chain or on all chains.
+ */
+export async function checkDelegations(plan: QuoteExecutionPlan, authorizations: SignedAuthorization[]): Promise<void> {
+    for (const step of plan.accountSetup) {
+        if (step.type !== 'delegation') continue;
+
+        let covered = false;
+        for (const auth of authorizations) {
+            if (auth.address !== step.contract || (auth.chainId !== step.chainId && auth.chainId !== 0)) continue;
+            if (await verifyAuthorization({ address: plan.accountAddress, authorization: auth })) {
+                covered = true;
+                break;
+            }
+        }
+        if (!covered) {
+            throw new ApiError(
+                422,
+                'UNPROCESSABLE_CONTENT',
+                `Missing authorization delegating ${plan.accountAddress} to ${step.contract} on ${toCaip2(step.chainId)}`,
+                { chainId: toCaip2(step.chainId), contract: step.contract },
+            );
+        }
+    }
+}
+
+/** Installs the modules the plan needs on `chainId` from the account itself and returns their hashes. */
+export async function executeModuleInstalls(plan: QuoteExecutionPlan, chainId: number): Promise<Hex[]> {
+    const ctx = chainContexts()[chainId];
+    const hashes: Hex[] = [];
+    const installs = plan.accountSetup.filter(
+        (step): step is Extract<AccountSetupStep, { type: 'installModule' }> =>
+            step.type === 'installModule' && step.chainId === chainId,
+    );
+    for (const [index, step] of installs.entries()) {
+        try {
+            hashes.push(
+                await ctx.sendAs(plan.accountAddress, {
+                    to: plan.accountAddress,
+                    callData: encodeFunctionData({
+                        abi: erc7579AccountAbi,
+                        functionName: 'installModule',
+                        args: [MODULE_TYPE_EXECUTOR, step.module, '0x'],
+                    }),
+                    value: 0n,
+                }),
+            );
+        } catch (e) {
+            throw ExecutionError.from('accountSetup', chainId, e, index);
+        }
+    }
+    return hashes;
+}
@@ -0,0 +1,71 @@
+import { encodePacked, getAddress, Hex, keccak256, slice } from 'viem';
+import { z } from 'zod';
+import { zPostQuotesResponse } from '../gen/zod.gen';
+import { toCaip2 } from '../caip2';
+import { SettlementLayer } from './settlementLayers';
+
+export type BridgeFill = NonNullable<z.infer<typeof zPostQuotesResponse>['routes'][number]['bridgeFill']>;
+
+type BridgeFillContext = {
+    intentId: string;
+    originChainIds: number[];
+    destinationChainId: number;
+};
+
+// Circle's CCTP domain ids, mainnets and their testnets share the same domain
+const CCTP_DOMAINS: Record<number, number> = {
+    1: 0,
+    11155111: 0,
+    43114: 1,
+    43113: 1,
+    10: 2,
+    11155420: 2,
+    42161: 3,
+    421614: 3,
+    8453: 6,
+    84532: 6,
+    137: 7,
+    80002: 7,
+    130: 10,
+    1301: 10,
+    59144: 11,
+    59141: 11,
+};
+
+// Chains without a real domain get a stable one outside Circle's range
+export const cctpDomain = (chainId: number): number => CCTP_DOMAINS[chainId] ?? 1000 + (chainId % 1000);
+
+// Derived from the intent id so repeated lookups of the same route agree
+const derive = (layer: SettlementLayer, intentId: string): Hex =>
+    keccak256(encodePacked(['string', 'uint256'], [layer, BigInt(intentId)]));
+
+const BUILDERS: Partial<Record<SettlementLayer, (ctx: BridgeFillContext) => BridgeFill>> = {
+    OFT: (ctx) => ({ type: 'OFT', destinationChainId: toCaip2(ctx.destinationChainId) }),
+    RELAY: (ctx) => ({
+        type: 'RELAY',
+        destinationChainId: toCaip2(ctx.destinationChainId),
+        requestId: derive('RELAY', ctx.intentId),
+    }),
+    NEAR: (ctx) => ({
+        type: 'NEAR',
+        destinationChainId: toCaip2(ctx.destinationChainId),
+        depositAddress: getAddress(slice(derive('NEAR', ctx.intentId), 12)),
+    }),
+    RHINO: (ctx) => ({
+        type: 'RHINO',
+        destinationChainId: toCaip2(ctx.destinationChainId),
+        commitmentId: derive('RHINO', ctx.intentId),
+    }),
+    CCTP: (ctx) => ({
+        type: 'CCTP',
+        destinationChainId: toCaip2(ctx.destinationChainId),
+        // Multi-origin routes burn on the first origin chain
+        sourceDomainId: cctpDomain(ctx.originChainIds[0]),
+        destinationDomainId: cctpDomain(ctx.destinationChainId),
+    }),
+};
+
+/** The layer specific fill details of a route, undefined for layers that have none. */
+export function buildBridgeFill(layer: SettlementLayer, ctx: BridgeFillContext): BridgeFill | undefined {
+    return BUILDERS[layer]?.(ctx);
+}
@@ -0,0 +1,337 @@
+import {
+    Address,
+    BaseError,
+    decodeErrorResult,
+    encodeAbiParameters,
+    encodePacked,
+    erc20Abi,
+    Hex,
+    SignedAuthorization,
+    zeroAddress,
+} from 'viem';
+import { appConfig, chainContexts, Execution, SentTransaction } from '../chains';
+import { intentExecutorAbi } from '../abi/intentExecutor';
+import { QuoteExecutionPlan } from './quoteCache';
+
+export type ExecutionStage = 'authorization' | 'accountSetup' | 'preClaim' | 'claim' | 'fill';
+
+// The parts of a plan that decide which chains an intent touches
+type IntentChains = Pick<QuoteExecutionPlan, 'inputs' | 'feeInput' | 'preClaimOps' | 'destinationChainId'>;
+
+/** A transaction of the intent that failed on-chain, with where it failed. */
+export class ExecutionError extends Error {
+    constructor(
+        readonly stage: ExecutionStage,
+        readonly chainId: number,
+        message: string,
+        readonly index?: number,
+        // Raw revert data, when the failing call returned any
+        readonly data?: Hex,
+    ) {
+        super(message);
+        this.name = 'ExecutionError';
+    }
+
+    static from(stage: ExecutionStage, chainId: number, e: unknown, index?: number): ExecutionError {
+        return new ExecutionError(stage, chainId, revertReason(e), index, revertData(e));
+    }
+}
+
+/** Raw revert data carried by a failed call, if any. */
+export const revertData = (e: unknown): Hex | undefined => {
+    if (!(e instanceof BaseError)) return undefined;
+    const cause = e.walk() as { data?: Hex | { data?: Hex } };
+    const data = typeof cause?.data === 'object' ? cause.data?.data : cause?.data;
+    return data && data !== '0x' ? data : undefined;
+};
+
+/** Decoded revert reason of a failed call, falling back to the error message. */
+export const revertReason = (e: unknown): string => {
+    if (!(e instanceof BaseError)) {
+        return e instanceof Error ? e.message : String(e);
+    }
+    const data = revertData(e);
+    if (!data) {
+        return e.shortMessage;
+    }
+    try {
+        const decoded = decodeErrorResult({ abi: [...intentExecutorAbi, ...erc20Abi], data });
+        return `${decoded.errorName}(${(decoded.args ?? []).map(String).join(', ')})`;
+    } catch {
+        return `Reverted with ${data}`;
+    }
+};
+
+export type FillResult = {
+    hash: Hex;
+    // Every transaction sent for the fill, the last one being `hash`
+    hashes: Hex[];
+    // Summed over the fill transactions, with the price paid by the last one
+    gas?: { limit?: bigint; used: bigint; effectiveGasPrice: bigint };
+};
+
+/**
+ * Fills the plan on the destination chain and returns the hash of the last fill
+ * transaction with the gas it used. Pending 7702 authorizations for the
+ * destination ride along with the first fill transaction.
+ */
+export const executeFill = async (
+    plan: QuoteExecutionPlan,
+    destinationSignature: Hex,
+    authorizationList: SignedAuthorization[] = [],
+): Promise<FillResult> => {
+    const executor = chainContexts()[plan.destinationChainId];
+    try {
+        const transactions = await fillTransactions(plan, destinationSignature);
+        if (transactions.length === 0) {
+            if (authorizationList.length === 0) {
+                return { hash: ('0x' + '00'.repeat(32)) as Hex, hashes: [] };
+            }
+            const hash = await executeAuthorizations(plan.destinationChainId, authorizationList);
+            return { hash, hashes: [hash] };
+        }
+
+        const sent: SentTransaction[] = [];
+        for (const [index, tx] of transactions.entries()) {
+            const withAuthorizations = index === 0 && authorizationList.length > 0;
+            sent.push(await executor.send(withAuthorizations ? { ...tx, authorizationList } : tx));
+        }
+        const last = sent[sent.length - 1];
+        return {
+            hash: last.hash,
+            hashes: sent.map((tx) => tx.hash),
+            gas: {
+                limit: plan.destinationGasLimit,
+                used: sent.reduce((acc, tx) => acc + tx.gasUsed, 0n),
+                effectiveGasPrice: last.effectiveGasPrice,
+            },
+        };
+    } catch (e) {
+        // Standalone authorizations fail with their own stage and revert data
+        if (e instanceof ExecutionError) throw e;
+        throw ExecutionError.from('fill', plan.destinationChainId, e);
+    }
+};
+
+/**
+ * Delegates the authorities' code with a standalone type-4 transaction from the
+ * relayer, for chains where no other relayer transaction can carry the list.
+ */
+export const executeAuthorizations = async (chainId: number, authorizationList: SignedAuthorization[]): Promise<Hex> => {
+    try {
+        return await chainContexts()[chainId].execute({
+            to: appConfig().relayerAddress,
+            callData: '0x',
+            value: 0n,
+            authorizationList,
+        });
+    } catch (e) {
+        throw ExecutionError.from('authorization', chainId, e);
+    }
+};
+
+/** Every chain the intent sends transactions on: claims, pre-claim executions and the fill. */
+export const intentChainIds = (plan: IntentChains): number[] => [
+    ...new Set([...claimChainIds(plan), ...preClaimChainIds(plan), plan.destinationChainId]),
+];
+
+/**
+ * Groups 7702 authorizations by the chain they are delivered on. Chain id 0
+ * authorizations are valid everywhere and go to every chain of the intent.
+ */
+export const authorizationsByChain = (
+    plan: QuoteExecutionPlan,
+    authorizations: SignedAuthorization[],
+): Map<number, SignedAuthorization[]> => {
+    const byChain = new Map<number, SignedAuthorization[]>();
+    for (const chainId of intentChainIds(plan)) {
+        const forChain = authorizations.filter((a) => a.chainId === chainId || a.chainId === 0);
+        if (forChain.length > 0) {
+            byChain.set(chainId, forChain);
+        }
+    }
+    return byChain;
+};
+
+const isCrossChain = (plan: IntentChains) => plan.inputs.some((i) => i.chainId !== plan.destinationChainId);
+
+/**
+ * Origin chains that need a claim. Same-chain intents are filled directly, while
+ * cross-chain intents pull their inputs on every origin chain - including the
+ * destination when it contributes part of a split input. A fee charged in a
+ * separate fee token is always claimed.
+ */
+export const claimChainIds = (plan: IntentChains): number[] => {
+    const inputChains = isCrossChain(plan) ? plan.inputs.map((i) => i.chainId) : [];
+    return [...new Set(plan.feeInput ? [...inputChains, plan.feeInput.chainId] : inputChains)];
+};
+
+/** Everything the claims pull from the account, across all claim chains. */
+export const claimedInputs = (plan: QuoteExecutionPlan): QuoteExecutionPlan['inputs'] => [
+    ...(isCrossChain(plan) ? plan.inputs : []),
+    ...(plan.feeInput ? [plan.feeInput] : []),
+];
+
+/**
+ * Origin chains the plan has pre-claim executions for. Same-chain intents have
+ * no claim but still run them ahead of the fill.
+ */
+export const preClaimChainIds = (plan: IntentChains): number[] => {
+    const origins = new Set([...plan.inputs, ...(plan.feeInput ? [plan.feeInput] : [])].map((i) => i.chainId));
+    return Object.keys(plan.preClaimOps)
+        .map(Number)
+        .filter((chainId) => origins.has(chainId));
+};
+
+type PreClaimOp = QuoteExecutionPlan['preClaimOps'][number][number];
+
+const simulatePreClaimOp = (chainId: number, op: PreClaimOp) =>
+    chainContexts()[chainId].simulate({
+        from: op.value === 0n ? appConfig().routerAddress : appConfig().relayerAddress,
+        to: op.to,
+        callData: op.data,
+        value: op.value,
+    });
+
+/**
+ * Dry-runs the pre-claim executions and the fill with `eth_call` without sending
+ * anything, throwing an ExecutionError for the first call that reverts. Each
+ * call runs against the current fork state, not on top of the previous ones.
+ */
+export const simulateIntent = async (plan: QuoteExecutionPlan, destinationSignature: Hex): Promise<void> => {
+    for (const chainId of preClaimChainIds(plan)) {
+        for (const [index, op] of plan.preClaimOps[chainId].entries()) {
+            try {
+                await simulatePreClaimOp(chainId, op);
+            } catch (e) {
+                throw ExecutionError.from('preClaim', chainId, e, index);
+            }
+        }
+    }
+
+    const executor = chainContexts()[plan.destinationChainId];
+    for (const [index, tx] of (await fillTransactions(plan, destinationSignature)).entries()) {
+        try {
+            await executor.simulate({ from: appConfig().relayerAddress, ...tx });
+        } catch (e) {
+            throw ExecutionError.from('fill', plan.destinationChainId, e, index);
+        }
+    }
+};
+
+/**
+ * Runs the pre-claim executions on `chainId` in order and returns their hashes.
+ * Each one is simulated first so a revert is reported against the execution
+ * that caused it. FakeRouter.mockFill is non-payable, so executions carrying
+ * native value are sent directly by the relayer.
+ */
+export const executePreClaim = async (plan: QuoteExecutionPlan, chainId: number): Promise<Hex[]> => {
+    const origin = chainContexts()[chainId];
+    const hashes: Hex[] = [];
+
+    for (const [index, op] of (plan.preClaimOps[chainId] ?? []).entries()) {
+        const viaRouter = op.value === 0n;
+        try {
+            await simulatePreClaimOp(chainId, op);
+            const tx = viaRouter
+                ? { ...(await origin.callFakeRouter([{ to: op.to, callData: op.data }])), value: 0n }
+                : { to: op.to, callData: op.data, value: op.value };
+            hashes.push(await origin.execute(tx));
+        } catch (e) {
+            throw ExecutionError.from('preClaim', chainId, e, index);
+        }
+    }
+    return hashes;
+};
+
+/**
+ * Pulls every input (and the fee) the plan has on `chainId` from the account and
+ * returns the hashes of the claim transactions.
+ */
+export const executeClaim = async (plan: QuoteExecutionPlan, chainId: number): Promise<Hex[]> => {
+    const origin = chainContexts()[chainId];
+    if (!origin) {
+        throw new Error(`Unsupported origin chain ${chainId}`);
+    }
+
+    const hashes: Hex[] = [];
+    for (const [index, input] of claimedInputs(plan).filter((i) => i.chainId === chainId).entries()) {
+        try {
+            hashes.push(await origin.pullFunds(plan.accountAddress, input.tokenAddress, input.amount));
+        } catch (e) {
+            throw ExecutionError.from('claim', chainId, e, index);
+        }
+    }
+    if (hashes.length === 0) {
+        throw new Error(`Nothing to claim on chain ${chainId}`);
+    }
+    return hashes;
+};
+
+
+/**
+ * The relayer transactions that fill the plan on the destination chain. Setup
+ * ops and token transfers go through the fake router, followed by the intent
+ * executor call when the plan uses the intent executor flow. FakeRouter.mockFill is
+ * non-payable, so native value cannot ride along with the ERC-20 batch and is
+ * sent in a separate direct transfer afterwards. The requested destination gas
+ * limit applies to the router batch, which carries the destination ops.
+ */
+const fillTransactions = async (plan: QuoteExecutionPlan, destinationSignature: Hex): Promise<Execution[]> => {
+    const executor = chainContexts()[plan.destinationChainId];
+
+    const setupCalls = plan.setupOps.map((op) => ({ to: op.to, callData: op.data }));
+
+    const tokenTransferCalls = plan.tokenRequests
+        .filter((t) => t.tokenAddress !== zeroAddress)
+        .map((t) => ({
+            to: t.tokenAddress,
+            callData: executor.transfer(plan.recipientAddress, t.amount),
+        }));
+
+    const nativeTransferValue = plan.tokenRequests
+        .filter((t) => t.tokenAddress === zeroAddress)
+        .reduce((acc, t) => acc + t.amount, 0n);
+
+    const intentExecutorCalls =
+        plan.executionFlow === 'intentExecutor'
+            ? [
+                  executor.intentExecutorCall(
+                      plan.accountAddress,
+                      plan.nonce,
+                      encodeDestinationOps(plan.destinationOps),
+                      destinationSignature,
+                  ),
+              ]
+            : [];
+
+    const routerCalls = [...setupCalls, ...tokenTransferCalls, ...intentExecutorCalls];
+
+    const transactions: Execution[] = [];
+    if (routerCalls.length > 0) {
+        transactions.push({ ...(await executor.callFakeRouter(routerCalls)), value: 0n, gas: plan.destinationGasLimit });
+    }
+    if (nativeTransferValue > 0n) {
+        transactions.push({ to: plan.recipientAddress, callData: '0x', value: nativeTransferValue });
+    }
+    return transactions;
+};
+
+const encodeDestinationOps = (ops: { to: Address; value: bigint; data: Hex }[]): Hex => {
+    const execType = 0x02;
+    const sigMode = 0x01;
+    const encoded = encodeAbiParameters(
+        [
+            {
+                type: 'tuple[]',
+                components: [
+                    { type: 'address', name: 'to' },
+                    { type: 'uint256', name: 'value' },
+                    { type: 'bytes', name: 'data' },
+                ],
+            },
+        ],
+        [ops],
+    );
+    return encodePacked(['uint8', 'uint8', 'bytes'], [execType, sigMode, encoded]);
+};
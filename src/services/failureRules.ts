@@ -0,0 +1,121 @@
+import { Address } from 'viem';
+import { appConfig, chainContexts, FailureRule } from '../chains';
+import { ApiError, ErrorCode } from '../errors';
+
+export type FailureEndpoint = 'quote' | 'intent' | 'split' | 'liquidity';
+
+export type FailureContext = {
+    endpoint: FailureEndpoint;
+    account?: Address;
+    destinationChainId?: number;
+    tokens: { tokenAddress: Address; amount?: bigint }[];
+};
+
+type StoredRule = FailureRule & { id: string };
+
+const DEFAULT_STATUS: Record<ErrorCode, number> = {
+    VALIDATION_ERROR: 400,
+    NOT_FOUND: 404,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+    CONFLICT: 409,
+    UNPROCESSABLE_CONTENT: 422,
+    TOO_MANY_REQUESTS: 429,
+    INSUFFICIENT_LIQUIDITY: 422,
+    SETTLEMENT_QUOTE_ERROR: 422,
+    SETTLEMENT_EXECUTION_ERROR: 500,
+    EXTERNAL_SERVICE_TIMEOUT: 504,
+    RELAYER_MARKET_UNAVAILABLE: 503,
+    INTERNAL_ERROR: 500,
+};
+
+let rules: StoredRule[] | undefined;
+let nextRuleId = 1;
+
+const withId = (rule: FailureRule): StoredRule => ({ ...rule, id: rule.id ?? `rule-${nextRuleId++}` });
+
+const activeRules = (): StoredRule[] => {
+    if (!rules) {
+        rules = (appConfig().failureRules ?? []).map(withId);
+    }
+    return rules;
+};
+
+export function listFailureRules(): StoredRule[] {
+    return activeRules();
+}
+
+export function addFailureRule(rule: FailureRule): StoredRule {
+    const stored = withId(rule);
+    rules = [...activeRules().filter((r) => r.id !== stored.id), stored];
+    return stored;
+}
+
+export function replaceFailureRules(newRules: FailureRule[]): StoredRule[] {
+    rules = newRules.map(withId);
+    return rules;
+}
+
+export function removeFailureRule(id: string): boolean {
+    const before = activeRules().length;
+    rules = activeRules().filter((r) => r.id !== id);
+    return rules.length !== before;
+}
+
+/**
+ * Throws the configured error when a rule matches the request. Returns the
+ * forced terminal status for intent submissions that should be accepted but
+ * never complete.
+ */
+export function applyFailureRules(ctx: FailureContext): 'FAILED' | 'EXPIRED' | undefined {
+    const rule = activeRules().find((r) => matches(r, ctx));
+    if (!rule) return undefined;
+
+    if (rule.times !== undefined) {
+        if (rule.times <= 1) {
+            removeFailureRule(rule.id);
+        } else {
+            rule.times -= 1;
+        }
+    }
+
+    console.log(`Failure rule ${rule.id} matched ${ctx.endpoint} request`);
+
+    if (rule.error) {
+        throw new ApiError(
+            rule.error.status ?? DEFAULT_STATUS[rule.error.code],
+            rule.error.code,
+            rule.error.message ?? `Injected failure (${rule.id})`,
+        );
+    }
+    return rule.intentStatus;
+}
+
+const matches = (rule: StoredRule, ctx: FailureContext): boolean => {
+    if (rule.on && !rule.on.includes(ctx.endpoint)) return false;
+    // Status-only rules can only take effect on a submitted intent
+    if (!rule.error && ctx.endpoint !== 'intent') return false;
+
+    const { account, destinationChainId, token, minAmount, maxAmount } = rule.match;
+    if (account && account.toLowerCase() !== ctx.account?.toLowerCase()) return false;
+    if (destinationChainId !== undefined && destinationChainId !== ctx.destinationChainId) return false;
+
+    const tokens = token ? ctx.tokens.filter((t) => isToken(token, t.tokenAddress, ctx.destinationChainId)) : ctx.tokens;
+    if (token && tokens.length === 0) return false;
+
+    if (minAmount !== undefined || maxAmount !== undefined) {
+        return tokens.some(
+            (t) =>
+                t.amount !== undefined &&
+                (minAmount === undefined || t.amount >= minAmount) &&
+                (maxAmount === undefined || t.amount <= maxAmount),
+        );
+    }
+    return true;
+};
+
+const isToken = (token: string, tokenAddress: Address, chainId: number | undefined): boolean => {
+    if (token.toLowerCase() === tokenAddress.toLowerCase()) return true;
+    const ctx = chainId !== undefined ? chainContexts()[chainId] : undefined;
+    return ctx?.tokenSymbol(tokenAddress) === token;
+};
@@ -0,0 +1,85 @@
+import { Address, zeroAddress } from 'viem';
+import { chainContexts, ChainContext } from '../chains';
+import { ApiError } from '../errors';
+import { toCaip2 } from '../caip2';
+
+// `set` writes the exact amount, `topUp` only raises it when currently below the amount
+export type FundingMode = 'set' | 'topUp';
+
+export type FundRequest = { chainId: number; address: Address; token: string; amount: bigint; mode: FundingMode };
+
+export type ApproveRequest = {
+    chainId: number;
+    owner: Address;
+    spender: Address;
+    token: string;
+    amount: bigint;
+    mode: FundingMode;
+};
+
+export type FundingResult = { chainId: string; token: string; previous: bigint; current: bigint };
+
+const resolve = (chainId: number, token: string): ChainContext => {
+    const ctx = chainContexts()[chainId];
+    if (!ctx) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported chain ${chainId}`);
+    }
+    if (!ctx.maybeAddress(token)) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Token ${token} is not configured on chain ${chainId}`);
+    }
+    return ctx;
+};
+
+/** Validates the whole batch up front so a bad entry does not leave it half-applied. */
+const resolveAll = (requests: { chainId: number; token: string }[]): ChainContext[] =>
+    requests.map((r) => resolve(r.chainId, r.token));
+
+export async function fundAccounts(requests: FundRequest[]): Promise<(FundingResult & { address: Address })[]> {
+    const contexts = resolveAll(requests);
+
+    const results = [];
+    for (const [i, request] of requests.entries()) {
+        const ctx = contexts[i];
+        const previous = await ctx.tokenBalance(request.address, request.token);
+        if (request.mode === 'set' || previous < request.amount) {
+            await ctx.fundAccount(request.address, request.token, request.amount);
+        }
+        results.push({
+            chainId: toCaip2(request.chainId),
+            address: request.address,
+            token: request.token,
+            previous,
+            current: await ctx.tokenBalance(request.address, request.token),
+        });
+    }
+    return results;
+}
+
+export async function approveSpenders(
+    requests: ApproveRequest[],
+): Promise<(FundingResult & { owner: Address; spender: Address })[]> {
+    const contexts = resolveAll(requests);
+    for (const [i, request] of requests.entries()) {
+        if (contexts[i].getTokenAddress(request.token) === zeroAddress) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Native ${request.token} cannot be approved`);
+        }
+    }
+
+    const results = [];
+    for (const [i, request] of requests.entries()) {
+        const ctx = contexts[i];
+        const previous = await ctx.allowance(request.owner, request.spender, request.token);
+        if (request.mode === 'set' || previous < request.amount) {
+            await ctx.approveSpending(request.owner, request.spender, request.token, request.amount);
+        }
+        results.push({
+            chainId: toCaip2(request.chainId),
+            owner: request.owner,
+            spender: request.spender,
+            token: request.token,
+            previous,
+            current: await ctx.allowance(request.owner, request.spender, request.token),
+        });
+    }
+    return results;
+}
@@ -0,0 +1,194 @@
+import { Hex, SignedAuthorization } from 'viem';
+import { setTimeout as sleep } from 'timers/promises';
+import { appConfig } from '../chains';
+import { ClaimRecord, findIntent, getIntent, recordTransactions, saveIntent, updateIntent } from './intentRepo';
+import { QuoteExecutionPlan } from './quoteCache';
+import {
+    authorizationsByChain,
+    claimChainIds,
+    executeAuthorizations,
+    executeClaim,
+    executeFill,
+    executePreClaim,
+    ExecutionError,
+    preClaimChainIds,
+} from './execution';
+import { layerDelays } from './settlementLayers';
+import { executeModuleInstalls } from './accountSetup';
+
+type TimedStatus = 'PENDING' | 'PRECONFIRMED' | 'CLAIMED' | 'FILLED';
+
+const DEFAULT_DELAYS: Record<TimedStatus, number> = {
+    PENDING: 250,
+    PRECONFIRMED: 250,
+    CLAIMED: 250,
+    FILLED: 250,
+};
+
+const delays = (plan: QuoteExecutionPlan): Record<TimedStatus, number> => ({
+    ...DEFAULT_DELAYS,
+    ...appConfig().lifecycle?.delays,
+    ...layerDelays(plan.settlementLayer),
+});
+
+// Aborted when stored state is restored, so lifecycles of the old state stop
+// instead of writing to intents that no longer exist and sending to reverted forks
+let lifecycles = new AbortController();
+const running = new Set<Promise<void>>();
+
+/**
+ * Stops every running lifecycle and waits until none of them can send another
+ * transaction. Each one stops at its next delay or after its current transaction.
+ */
+export async function cancelLifecycles(): Promise<void> {
+    lifecycles.abort();
+    lifecycles = new AbortController();
+    await Promise.allSettled([...running]);
+}
+
+/**
+ * Registers the intent as PENDING and walks it through
+ * PRECONFIRMED -> CLAIMED -> FILLED -> COMPLETED in the background. Cross-chain
+ * intents pull their inputs on every origin chain before the CLAIMED transition,
+ * each claim preceded by the 7702 authorizations and pre-claim executions for
+ * its chain. Destination authorizations are sent along with the fill, after any
+ * executor module install the account still needs. Any error along
+ * the way parks the intent in FAILED, recording where it happened. A `forcedStatus`
+ * (from failure injection) ends the lifecycle early without filling.
+ */
+export function startIntentLifecycle(
+    intentId: string,
+    plan: QuoteExecutionPlan,
+    destinationSignature: Hex,
+    authorizations: SignedAuthorization[],
+    forcedStatus?: 'FAILED' | 'EXPIRED',
+): void {
+    saveIntent(intentId, {
+        accountAddress: plan.recipientAddress,
+        destinationChainId: plan.destinationChainId,
+        status: 'PENDING',
+        claims: claimChainIds(plan).map((chainId) => ({ chainId, status: 'PENDING' })),
+        plan,
+    });
+
+    const signal = lifecycles.signal;
+    const run = runLifecycle(intentId, plan, destinationSignature, authorizations, signal, forcedStatus)
+        .catch((e) => {
+            if (signal.aborted) {
+                console.log(`Intent ${intentId} cancelled by a state restore`);
+                return;
+            }
+            console.log(`Intent ${intentId} failed: `, e);
+            if (!findIntent(intentId)) return;
+            const failure =
+                e instanceof ExecutionError
+                    ? { stage: e.stage, chainId: e.chainId, index: e.index, message: e.message, revertData: e.data }
+                    : { stage: 'lifecycle' as const, message: e instanceof Error ? e.message : String(e) };
+            updateIntent(intentId, { status: 'FAILED', failure });
+        })
+        .finally(() => running.delete(run));
+    running.add(run);
+}
+
+const runLifecycle = async (
+    intentId: string,
+    plan: QuoteExecutionPlan,
+    destinationSignature: Hex,
+    authorizations: SignedAuthorization[],
+    signal: AbortSignal,
+    forcedStatus?: 'FAILED' | 'EXPIRED',
+) => {
+    const timings = delays(plan);
+    // Every step re-checks for cancellation, so nothing is sent or written after a restore
+    const step = async <T>(task: Promise<T>): Promise<T> => {
+        const result = await task;
+        signal.throwIfAborted();
+        return result;
+    };
+    const wait = (ms: number) => sleep(ms, undefined, { signal });
+
+    // 7702 authorizations are delivered once per chain, before the first transaction that may rely on them
+    const pendingAuthorizations = authorizationsByChain(plan, authorizations);
+    const takeAuthorizations = (chainId: number) => {
+        const list = pendingAuthorizations.get(chainId) ?? [];
+        pendingAuthorizations.delete(chainId);
+        return list;
+    };
+
+    await wait(timings.PENDING);
+    if (forcedStatus === 'EXPIRED') {
+        updateClaims(intentId, { status: 'EXPIRED' });
+        updateIntent(intentId, { status: 'EXPIRED' });
+        return;
+    }
+    updateClaims(intentId, { status: 'PRECONFIRMED' });
+    updateIntent(intentId, { status: 'PRECONFIRMED' });
+
+    await wait(timings.PRECONFIRMED);
+    if (forcedStatus === 'FAILED') {
+        updateClaims(intentId, { status: 'FAILED' });
+        updateIntent(intentId, { status: 'FAILED' });
+        return;
+    }
+    const claimChains = claimChainIds(plan);
+    for (const chainId of [...new Set([...claimChains, ...preClaimChainIds(plan)])]) {
+        try {
+            const chainAuthorizations = takeAuthorizations(chainId);
+            if (chainAuthorizations.length > 0) {
+                recordTransactions(intentId, chainId, 'authorization', [
+                    await step(executeAuthorizations(chainId, chainAuthorizations)),
+                ]);
+            }
+            if (plan.preClaimOps[chainId]?.length) {
+                const hashes = await step(executePreClaim(plan, chainId));
+                recordTransactions(intentId, chainId, 'preClaim', hashes);
+                updateIntent(intentId, {
+                    preClaimTransactions: { ...getIntent(intentId).preClaimTransactions, [chainId]: hashes },
+                });
+            }
+            if (!claimChains.includes(chainId)) continue;
+
+            const claimHashes = await step(executeClaim(plan, chainId));
+            recordTransactions(intentId, chainId, 'claim', claimHashes);
+            updateClaims(
+                intentId,
+                {
+                    status: 'COMPLETED',
+                    claimTimestamp: Math.floor(Date.now() / 1000),
+                    claimTransactionHash: claimHashes[claimHashes.length - 1],
+                },
+                chainId,
+            );
+        } catch (e) {
+            if (!signal.aborted) {
+                updateClaims(intentId, { status: 'FAILED' }, chainId);
+            }
+            throw e;
+        }
+    }
+    updateIntent(intentId, { status: 'CLAIMED' });
+
+    await wait(timings.CLAIMED);
+    const installs = await step(executeModuleInstalls(plan, plan.destinationChainId));
+    recordTransactions(intentId, plan.destinationChainId, 'accountSetup', installs);
+    const fill = await step(
+        executeFill(plan, destinationSignature, takeAuthorizations(plan.destinationChainId)),
+    );
+    recordTransactions(intentId, plan.destinationChainId, 'fill', fill.hashes);
+    updateIntent(intentId, {
+        status: 'FILLED',
+        fillTimestamp: Math.floor(Date.now() / 1000),
+        fillTransactionHash: fill.hash,
+        fillGas: fill.gas,
+    });
+
+    await wait(timings.FILLED);
+    updateIntent(intentId, { status: 'COMPLETED' });
+};
+
+const updateClaims = (intentId: string, patch: Partial<ClaimRecord>, chainId?: number) => {
+    const claims = getIntent(intentId).claims.map((claim) =>
+        chainId === undefined || claim.chainId === chainId ? { ...claim, ...patch } : claim,
+    );
+    updateIntent(intentId, { claims });
+};
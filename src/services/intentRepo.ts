@@ -1,5 +1,8 @@
 import { Address, Hex } from 'viem';
 import { ApiError } from '../errors';
+import { QuoteExecutionPlan } from './quoteCache';
+import type { ExecutionStage } from './execution';
+import { createRepository, Repository } from './storage';
 
 export type IntentStatus = 'PENDING' | 'PRECONFIRMED' | 'CLAIMED' | 'FILLED' | 'COMPLETED' | 'FAILED' | 'EXPIRED';
 
@@ -16,10 +19,35 @@ export type IntentRecord = {
     status: IntentStatus;
     fillTimestamp?: number;
     fillTransactionHash?: Hex;
+    // From the fill receipts: gas used summed over the fill transactions and the price paid
+    fillGas?: { limit?: bigint; used: bigint; effectiveGasPrice: bigint };
     claims: ClaimRecord[];
+    // Hashes of the pre-claim executions run on each origin chain
+    preClaimTransactions?: Record<number, Hex[]>;
+    // Every transaction sent for the intent, in order, keyed by chain id
+    transactions?: Record<number, { stage: ExecutionStage; hash: Hex }[]>;
+    failure?: {
+        stage: ExecutionStage | 'lifecycle';
+        chainId?: number;
+        // Position of the failing transaction within its stage on that chain
+        index?: number;
+        message: string;
+        revertData?: Hex;
+    };
+    // Status transitions with their Unix timestamps in milliseconds
+    timeline?: { status: IntentStatus; timestamp: number }[];
+    // The quote the intent was submitted against, kept for later inspection
+    plan?: QuoteExecutionPlan;
 };
 
-const intents = new Map<string, IntentRecord>();
+let repository: Repository<IntentRecord> | undefined;
+
+const intents = (): Repository<IntentRecord> => {
+    if (!repository) {
+        repository = createRepository<IntentRecord>('intents');
+    }
+    return repository;
+};
 
 export class IntentNotFoundError extends ApiError {
     constructor(intentId: string) {
@@ -27,8 +55,12 @@ export class IntentNotFoundError extends ApiError {
     }
 }
 
+export function findIntent(intentId: string): IntentRecord | undefined {
+    return intents().get(intentId);
+}
+
 export function getIntent(intentId: string): IntentRecord {
-    const intent = intents.get(intentId);
+    const intent = intents().get(intentId);
     if (!intent) {
         throw new IntentNotFoundError(intentId);
     }
@@ -36,5 +68,64 @@ export function getIntent(intentId: string): IntentRecord {
 }
 
 export function saveIntent(intentId: string, record: IntentRecord): void {
-    intents.set(intentId, record);
+    intents().set(intentId, {
+        ...record,
+        timeline: record.timeline ?? [{ status: record.status, timestamp: Date.now() }],
+    });
+}
+
+/** Applies `patch`, appending to the timeline when the status changes. */
+export function updateIntent(intentId: string, patch: Partial<IntentRecord>): IntentRecord {
+    const current = getIntent(intentId);
+    const updated = { ...current, ...patch };
+    if (patch.status && patch.status !== current.status) {
+        updated.timeline = [...(current.timeline ?? []), { status: patch.status, timestamp: Date.now() }];
+    }
+    intents().set(intentId, updated);
+    return updated;
+}
+
+/** Appends transactions sent on `chainId` to the intent's log. */
+export function recordTransactions(intentId: string, chainId: number, stage: ExecutionStage, hashes: Hex[]): void {
+    if (hashes.length === 0) return;
+    const transactions = getIntent(intentId).transactions ?? {};
+    updateIntent(intentId, {
+        transactions: {
+            ...transactions,
+            [chainId]: [...(transactions[chainId] ?? []), ...hashes.map((hash) => ({ stage, hash }))],
+        },
+    });
+}
+
+const IN_FLIGHT_STATUSES: IntentStatus[] = ['PENDING', 'PRECONFIRMED', 'CLAIMED', 'FILLED'];
+
+/**
+ * Fails intents whose lifecycle was still running when the server stopped. A
+ * persisted intent outlives its lifecycle, which is never resumed after a restart.
+ */
+export function failInterruptedIntents(): number {
+    const interrupted = intents()
+        .entries()
+        .filter(([, intent]) => IN_FLIGHT_STATUSES.includes(intent.status));
+    for (const [intentId, intent] of interrupted) {
+        updateIntent(intentId, {
+            status: 'FAILED',
+            claims: intent.claims.map((c) =>
+                c.status === 'PENDING' || c.status === 'PRECONFIRMED' ? { ...c, status: 'FAILED' } : c,
+            ),
+            failure: { stage: 'lifecycle', message: 'Interrupted by a server restart' },
+        });
+    }
+    return interrupted.length;
+}
+
+export function exportIntents(): [string, IntentRecord][] {
+    return structuredClone(intents().entries());
+}
+
+export function importIntents(entries: [string, IntentRecord][]): void {
+    intents().clear();
+    for (const [intentId, record] of structuredClone(entries)) {
+        intents().set(intentId, record);
+    }
 }
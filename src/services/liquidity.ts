@@ -0,0 +1,125 @@
+import { Address, isAddress, zeroAddress } from 'viem';
+import { appConfig, ChainContext, chainContexts } from '../chains';
+import { ApiError } from '../errors';
+import { toCaip2 } from '../caip2';
+import { layerMaxAmount, SettlementLayer } from './settlementLayers';
+
+export type TokenLiquidity = {
+    chainId: number;
+    tokenAddress: Address;
+    symbol: string;
+    decimals: number;
+    // Most a single intent can fill, undefined when unlimited
+    maxAmount?: bigint;
+};
+
+// Admin set caps keyed by `${chainId}:${symbol}`, they replace the configured
+// cap for that token and `null` lifts it
+let overrides = new Map<string, bigint | null>();
+
+const overrideKey = (chainId: number, symbol: string) => `${chainId}:${symbol}`;
+
+/** Resolves a token symbol or address against the chain's token table. */
+export function resolveToken(chainId: number, token: string): Omit<TokenLiquidity, 'maxAmount'> {
+    const ctx = chainContexts()[chainId];
+    if (!ctx) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported chain ${toCaip2(chainId)}`);
+    }
+    const symbol = isAddress(token, { strict: false }) ? ctx.tokenSymbol(token) : ctx.maybeAddress(token) && token;
+    if (!symbol) {
+        throw new ApiError(404, 'NOT_FOUND', `Token ${token} is not supported on ${toCaip2(chainId)}`);
+    }
+    return { chainId, tokenAddress: ctx.getTokenAddress(symbol), symbol, decimals: ctx.tokenDecimals(symbol)! };
+}
+
+export function setLiquidityOverride(chainId: number, token: string, maxAmount: bigint | null): TokenLiquidity {
+    const resolved = resolveToken(chainId, token);
+    overrides.set(overrideKey(chainId, resolved.symbol), maxAmount);
+    return { ...resolved, maxAmount: maxAmount ?? undefined };
+}
+
+export function clearLiquidityOverrides(): void {
+    overrides = new Map();
+}
+
+/**
+ * How much of `token` a single intent can fill on `chainId`: the tightest of
+ * the admin or configured cap, the limit of the settlement layers and the
+ * balance that funds the fill. When several layers are allowed the most
+ * generous one applies, since the intent can settle through any of them.
+ */
+export async function tokenLiquidity(chainId: number, token: string, layers?: SettlementLayer[]): Promise<TokenLiquidity> {
+    const resolved = resolveToken(chainId, token);
+    const caps: bigint[] = [];
+
+    const key = overrideKey(chainId, resolved.symbol);
+    const cap = overrides.has(key) ? overrides.get(key) : appConfig().liquidity?.caps?.[chainId]?.[resolved.symbol];
+    if (cap !== undefined && cap !== null) {
+        caps.push(cap);
+    }
+
+    const layerLimits = (layers ?? []).map((layer) => layerMaxAmount(layer, resolved.symbol));
+    if (layerLimits.length > 0 && layerLimits.every((limit) => limit !== undefined)) {
+        caps.push(layerLimits.reduce((a, b) => (a! > b! ? a : b))!);
+    }
+
+    if (appConfig().liquidity?.relayerBalance ?? true) {
+        caps.push(await fillBalance(chainContexts()[chainId], resolved.symbol, resolved.tokenAddress));
+    }
+
+    const maxAmount = caps.length > 0 ? caps.reduce((a, b) => (a < b ? a : b)) : undefined;
+    return { ...resolved, maxAmount };
+}
+
+/** Rejects fills above the liquidity of `layer` on the destination with INSUFFICIENT_LIQUIDITY. */
+export async function assertLiquidity(
+    chainId: number,
+    tokenRequests: { tokenAddress: Address; amount: bigint }[],
+    layer: SettlementLayer,
+): Promise<void> {
+    for (const request of tokenRequests) {
+        const liquidity = await tokenLiquidity(chainId, request.tokenAddress, [layer]);
+        if (liquidity.maxAmount !== undefined && request.amount > liquidity.maxAmount) {
+            throw new ApiError(
+                422,
+                'INSUFFICIENT_LIQUIDITY',
+                `${layer} can fill at most ${liquidity.maxAmount} ${liquidity.symbol} on ${toCaip2(chainId)}`,
+                {
+                    chainId: toCaip2(chainId),
+                    token: liquidity.tokenAddress,
+                    settlementLayer: layer,
+                    maxAmount: liquidity.maxAmount.toString(),
+                },
+            );
+        }
+    }
+}
+
+// ERC-20 fills are paid out of the fake router, native ones by the relayer
+const fillBalance = (ctx: ChainContext, symbol: string, tokenAddress: Address): Promise<bigint> =>
+    ctx.tokenBalance(tokenAddress === zeroAddress ? appConfig().relayerAddress : appConfig().routerAddress, symbol);
+
+/**
+ * Splits `amount` into chunks no larger than `maxAmount`. Throws
+ * INSUFFICIENT_LIQUIDITY when nothing at all can be filled, which includes a
+ * non-positive cap that would otherwise never finish the split.
+ */
+export function chunkAmount(liquidity: TokenLiquidity, amount: bigint): bigint[] {
+    const max = liquidity.maxAmount;
+    if (max === undefined || amount <= max) {
+        return [amount];
+    }
+    if (max <= 0n) {
+        throw new ApiError(
+            422,
+            'INSUFFICIENT_LIQUIDITY',
+            `No ${liquidity.symbol} liquidity on ${toCaip2(liquidity.chainId)}`,
+            { chainId: toCaip2(liquidity.chainId), token: liquidity.tokenAddress, maxAmount: '0' },
+        );
+    }
+    const chunks: bigint[] = [];
+    for (let left = amount; left > 0n; left -= max < left ? max : left) {
+        chunks.push(max < left ? max : left);
+    }
+    return chunks;
+}
@@ -0,0 +1,143 @@
+import { Address } from 'viem';
+import { appConfig, chainContexts, FeeModel } from '../chains';
+import { toCaip2 } from '../caip2';
+import { SettlementLayer } from './settlementLayers';
+
+export type FeeComponent = 'gas' | 'bridge' | 'protocol' | 'swap' | 'settlement';
+
+export type RouteFees = {
+    breakdown: Record<FeeComponent, number>;
+    total: number;
+    sponsored: FeeComponent[];
+};
+
+export type SponsorSettings = { gas?: boolean; bridgeFees?: boolean; swapFees?: boolean };
+
+type TokenAmount = { chainId: number; tokenAddress: Address; amount: bigint };
+
+const DEFAULT_PRICES: Record<string, number> = {
+    ETH: 3000,
+    WETH: 3000,
+    USDC: 1,
+    USDT: 1,
+    USDT0: 1,
+    MockUSDC: 1,
+};
+
+// Same-chain fills only cost gas, bridged routes pay the full fee stack. The
+// bridges trade speed for cost, see the fill times in settlementLayers.
+const DEFAULT_FEE_MODELS: Record<SettlementLayer, FeeModel> = {
+    INTENT_EXECUTOR: { gasUsdPerChain: 0.01, bridgeBps: 0, protocolBps: 0, swapBps: 0, settlementUsd: 0 },
+    SAME_CHAIN: { gasUsdPerChain: 0.01, bridgeBps: 0, protocolBps: 0, swapBps: 0, settlementUsd: 0 },
+    ACROSS: { gasUsdPerChain: 0.05, bridgeBps: 5, protocolBps: 1, swapBps: 10, settlementUsd: 0.02 },
+    RELAY: { gasUsdPerChain: 0.05, bridgeBps: 8, protocolBps: 1, swapBps: 10, settlementUsd: 0.05 },
+    CCTP: { gasUsdPerChain: 0.08, bridgeBps: 0, protocolBps: 1, swapBps: 10, settlementUsd: 0 },
+    ECO: { gasUsdPerChain: 0.05, bridgeBps: 4, protocolBps: 1, swapBps: 10, settlementUsd: 0.03 },
+    RHINO: { gasUsdPerChain: 0.05, bridgeBps: 6, protocolBps: 1, swapBps: 10, settlementUsd: 0.01 },
+    NEAR: { gasUsdPerChain: 0.05, bridgeBps: 10, protocolBps: 1, swapBps: 10, settlementUsd: 0 },
+    OFT: { gasUsdPerChain: 0.1, bridgeBps: 0, protocolBps: 1, swapBps: 10, settlementUsd: 0.1 },
+};
+
+export const roundUsd = (usd: number) => Math.round(usd * 1e6) / 1e6;
+
+export function tokenPrice(symbol: string | undefined): number | undefined {
+    if (!symbol) return undefined;
+    return appConfig().pricing?.prices?.[symbol] ?? DEFAULT_PRICES[symbol];
+}
+
+const feeModel = (layer: SettlementLayer): FeeModel => ({
+    ...DEFAULT_FEE_MODELS[layer],
+    ...appConfig().pricing?.fees?.[layer],
+});
+
+const tokenInfo = (chainId: number, tokenAddress: Address) => {
+    const ctx = chainContexts()[chainId];
+    const symbol = ctx?.tokenSymbol(tokenAddress);
+    return {
+        symbol,
+        decimals: symbol ? ctx.tokenDecimals(symbol) : undefined,
+        price: tokenPrice(symbol),
+    };
+};
+
+/** USD value of a token amount, 0 for tokens without a known price. */
+export function usdValue(token: TokenAmount): number {
+    const { decimals, price } = tokenInfo(token.chainId, token.tokenAddress);
+    if (decimals === undefined || price === undefined) return 0;
+    return (Number(token.amount) / 10 ** decimals) * price;
+}
+
+const sumUsd = (tokens: TokenAmount[]) => tokens.reduce((acc, t) => acc + usdValue(t), 0);
+
+export function computeFees(
+    layer: SettlementLayer,
+    destinationChainId: number,
+    outputs: TokenAmount[],
+    inputs: TokenAmount[],
+): RouteFees {
+    const model = feeModel(layer);
+    const chains = new Set([destinationChainId, ...inputs.map((i) => i.chainId)]);
+    const inputSymbols = new Set(inputs.map((i) => tokenInfo(i.chainId, i.tokenAddress).symbol));
+
+    const breakdown: Record<FeeComponent, number> = {
+        gas: model.gasUsdPerChain * chains.size,
+        bridge: (model.bridgeBps / 10_000) * sumUsd(inputs.filter((i) => i.chainId !== destinationChainId)),
+        protocol: (model.protocolBps / 10_000) * sumUsd(outputs),
+        swap:
+            (model.swapBps / 10_000) *
+            sumUsd(outputs.filter((o) => !inputSymbols.has(tokenInfo(o.chainId, o.tokenAddress).symbol))),
+        settlement: model.settlementUsd,
+    };
+    return { breakdown, total: sumFees(breakdown), sponsored: [] };
+}
+
+const sumFees = (breakdown: Record<FeeComponent, number>): number =>
+    Object.values(breakdown).reduce((acc, usd) => acc + usd, 0);
+
+/** Zeroes the fee components covered by the sponsor and drops them from the total. */
+export function applySponsorship(fees: RouteFees, settings: SponsorSettings | undefined): RouteFees {
+    const sponsored: FeeComponent[] = [
+        ...(settings?.gas ? (['gas'] as const) : []),
+        // The settlement fee is what the bridge layer charges on top of the bridged amount
+        ...(settings?.bridgeFees ? (['bridge', 'settlement'] as const) : []),
+        ...(settings?.swapFees ? (['swap'] as const) : []),
+    ];
+    const breakdown = { ...fees.breakdown };
+    for (const component of sponsored) {
+        breakdown[component] = 0;
+    }
+    return { breakdown, total: sumFees(breakdown), sponsored };
+}
+
+/** Converts a USD amount into units of the token, rounding up. */
+export function usdToTokenAmount(usd: number, chainId: number, tokenAddress: Address): bigint | undefined {
+    const { decimals, price } = tokenInfo(chainId, tokenAddress);
+    if (decimals === undefined || !price) return undefined;
+    return BigInt(Math.ceil((usd / price) * 10 ** decimals));
+}
+
+/**
+ * Splits the total fee across the requested tokens by their USD value and
+ * converts each share into token units, rounding up.
+ */
+export function feeAmounts(totalUsd: number, outputs: TokenAmount[]): bigint[] {
+    const values = outputs.map(usdValue);
+    const total = values.reduce((acc, v) => acc + v, 0);
+    if (total === 0 || totalUsd === 0) return outputs.map(() => 0n);
+
+    return outputs.map(
+        (output, i) => usdToTokenAmount((totalUsd * values[i]) / total, output.chainId, output.tokenAddress) ?? 0n,
+    );
+}
+
+export function costEntry(token: TokenAmount) {
+    const { symbol, decimals, price } = tokenInfo(token.chainId, token.tokenAddress);
+    return {
+        chainId: toCaip2(token.chainId),
+        tokenAddress: token.tokenAddress,
+        symbol: symbol ?? null,
+        decimals: decimals ?? null,
+        price: price !== undefined ? { usd: price } : null,
+        amount: token.amount.toString(),
+    };
+}
@@ -1,23 +1,150 @@
 import { Address, Hex } from 'viem';
+import { appConfig } from '../chains';
+import { createRepository, Repository } from './storage';
 
 export type QuoteExecutionPlan = {
     accountAddress: Address;
     recipientAddress: Address;
-    sourceChainId: number;
     destinationChainId: number;
     tokenRequests: { tokenAddress: Address; amount: bigint }[];
+    // What gets pulled from the account on the origin chains
+    inputs: { chainId: number; tokenAddress: Address; amount: bigint }[];
+    // Fees charged in `options.feeToken`, pulled together with the inputs
+    feeInput?: { chainId: number; tokenAddress: Address; amount: bigint };
     destinationOps: { to: Address; value: bigint; data: Hex }[];
+    // Run on each origin chain right before its claim, keyed by chain id
+    preClaimOps: Record<number, { to: Address; value: bigint; data: Hex }[]>;
     setupOps: { to: Address; data: Hex }[];
+    // Gas limit of the fill transaction, estimated when not requested
+    destinationGasLimit?: bigint;
+    // Legacy transfers through the fake router, or the destination ops through the intent executor
+    executionFlow: 'fakeRouter' | 'intentExecutor';
+    // Delegations and module installs the account needs before the fill
+    accountSetup: (
+        | { type: 'delegation'; chainId: number; contract: Address }
+        | { type: 'installModule'; chainId: number; module: Address }
+    )[];
     settlementLayer: 'INTENT_EXECUTOR' | 'SAME_CHAIN' | 'ACROSS' | 'ECO' | 'RELAY' | 'OFT' | 'NEAR' | 'RHINO' | 'CCTP';
     nonce: bigint;
 };
 
-const cache = new Map<string, QuoteExecutionPlan>();
+export type CachedQuote = {
+    plan: QuoteExecutionPlan;
+    // Unix timestamp in seconds
+    expiresAt: number;
+    // Intent ids of the competing routes returned with this one
+    siblings: string[];
+};
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_CLEANUP_INTERVAL_SECONDS = 60;
+const DEFAULT_EXPIRED_RETENTION_SECONDS = 3600;
+
+let cache: Repository<CachedQuote> | undefined;
+
+const quotes = (): Repository<CachedQuote> => {
+    if (!cache) {
+        cache = createRepository<CachedQuote>('quotes');
+    }
+    return cache;
+};
+
+// Admin set TTL for new quotes, replacing the configured one
+let ttlOverride: number | undefined;
+
+// Intent ids with a submission in progress, a quote and its siblings are
+// reserved together since only one of them can be submitted
+const reserved = new Set<string>();
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Stores the plans of the routes returned for one quote request, keyed by their
+ * intent ids, and returns their shared expiry timestamp.
+ */
+export function saveQuotes(routes: { intentId: string; plan: QuoteExecutionPlan }[]): number {
+    const expiresAt = nowSeconds() + quoteTtlSeconds();
+    const intentIds = routes.map((r) => r.intentId);
+    for (const { intentId, plan } of routes) {
+        quotes().set(intentId, { plan, expiresAt, siblings: intentIds.filter((id) => id !== intentId) });
+    }
+    return expiresAt;
+}
+
+export function quoteTtlSeconds(): number {
+    return ttlOverride ?? appConfig().quotes?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+}
+
+/** Overrides the TTL of quotes saved from now on, `undefined` restores the configured one. */
+export function setQuoteTtl(ttlSeconds: number | undefined): void {
+    ttlOverride = ttlSeconds;
+}
+
+export function getQuote(intentId: string): CachedQuote | undefined {
+    return quotes().get(intentId);
+}
+
+/**
+ * Quotes are single-use: drop the entry once an intent has been accepted for it,
+ * together with the competing routes so only one of them can ever execute.
+ */
+export function consumeQuote(intentId: string): void {
+    for (const sibling of quotes().get(intentId)?.siblings ?? []) {
+        quotes().delete(sibling);
+    }
+    quotes().delete(intentId);
+}
+
+/**
+ * Reserves the quote and its siblings for a submission in progress. Returns
+ * false when one of them is already reserved by another submission.
+ */
+export function reserveQuote(intentId: string, quote: CachedQuote): boolean {
+    const ids = [intentId, ...quote.siblings];
+    if (ids.some((id) => reserved.has(id))) {
+        return false;
+    }
+    ids.forEach((id) => reserved.add(id));
+    return true;
+}
+
+export function releaseQuote(intentId: string, quote: CachedQuote): void {
+    [intentId, ...quote.siblings].forEach((id) => reserved.delete(id));
+}
+
+export function isQuoteExpired(quote: CachedQuote): boolean {
+    return quote.expiresAt <= nowSeconds();
+}
+
+export function exportQuotes(): [string, CachedQuote][] {
+    return structuredClone(quotes().entries());
+}
+
+export function importQuotes(entries: [string, CachedQuote][]): void {
+    quotes().clear();
+    for (const [intentId, quote] of structuredClone(entries)) {
+        quotes().set(intentId, quote);
+    }
+}
 
-export function saveQuote(intentId: string, plan: QuoteExecutionPlan): void {
-    cache.set(intentId, plan);
+/**
+ * Deletes expired quotes once their retention has passed as well. Until then
+ * they stay in the cache, so a late submission is still refused as expired
+ * rather than as an unknown intent. Returns how many quotes were deleted.
+ */
+export function sweepQuotes(): number {
+    const retention = appConfig().quotes?.expiredRetentionSeconds ?? DEFAULT_EXPIRED_RETENTION_SECONDS;
+    let swept = 0;
+    for (const [intentId, quote] of quotes().entries()) {
+        if (quote.expiresAt + retention <= nowSeconds()) {
+            quotes().delete(intentId);
+            swept++;
+        }
+    }
+    return swept;
 }
 
-export function takeQuote(intentId: string): QuoteExecutionPlan | undefined {
-    return cache.get(intentId);
+export function startQuoteSweeper(): void {
+    const interval = (appConfig().quotes?.cleanupIntervalSeconds ?? DEFAULT_CLEANUP_INTERVAL_SECONDS) * 1000;
+    setInterval(sweepQuotes, interval).unref();
 }
@@ -0,0 +1,82 @@
+import { appConfig, LifecycleDelays } from '../chains';
+import { QuoteExecutionPlan } from './quoteCache';
+
+export type SettlementLayer = QuoteExecutionPlan['settlementLayer'];
+export type BridgeLayer = Exclude<SettlementLayer, 'INTENT_EXECUTOR' | 'SAME_CHAIN'>;
+
+export type SelectionStrategy = 'cheapest' | 'fastest' | 'best';
+
+// Declaration order is the route order when no selection strategy is requested
+const DEFAULT_FILL_TIMES: Record<BridgeLayer, number> = {
+    ACROSS: 5,
+    RELAY: 3,
+    CCTP: 20,
+    ECO: 8,
+    RHINO: 10,
+    NEAR: 12,
+    OFT: 30,
+};
+
+const SAME_CHAIN_FILL_TIME = 1;
+
+// Where each bridge spends its time, scaled down to keep tests fast
+const DEFAULT_LAYER_DELAYS: Partial<Record<SettlementLayer, LifecycleDelays>> = {
+    RELAY: { PRECONFIRMED: 100, CLAIMED: 100 },
+    // Waits for the Circle attestation before the mint on the destination
+    CCTP: { PRECONFIRMED: 1000 },
+    // Deposit to the generated address has to be detected first
+    NEAR: { PENDING: 500 },
+    RHINO: { PRECONFIRMED: 500 },
+    // LayerZero message delivery
+    OFT: { CLAIMED: 1000 },
+};
+
+const layerConfig = (layer: SettlementLayer) => appConfig().settlementLayers?.[layer];
+
+/** Bridge layers enabled in the config, in their default order. */
+export function enabledBridgeLayers(): BridgeLayer[] {
+    return (Object.keys(DEFAULT_FILL_TIMES) as BridgeLayer[]).filter((layer) => layerConfig(layer)?.enabled ?? true);
+}
+
+export function fillTimeSeconds(layer: SettlementLayer): number {
+    const fallback = layer === 'INTENT_EXECUTOR' || layer === 'SAME_CHAIN' ? SAME_CHAIN_FILL_TIME : DEFAULT_FILL_TIMES[layer];
+    return layerConfig(layer)?.fillTimeSeconds ?? fallback;
+}
+
+/** Lifecycle delay overrides for intents settled through `layer`. */
+export function layerDelays(layer: SettlementLayer): LifecycleDelays {
+    return { ...DEFAULT_LAYER_DELAYS[layer], ...layerConfig(layer)?.delays };
+}
+
+/** Most a single intent through `layer` can fill in `symbol`, unlimited when not configured. */
+export function layerMaxAmount(layer: SettlementLayer, symbol: string): bigint | undefined {
+    return layerConfig(layer)?.maxAmounts?.[symbol];
+}
+
+/**
+ * Orders candidate routes by the requested strategy. `best` ranks every route
+ * by cost and by speed and prefers the lowest combined rank, breaking ties on
+ * cost. Without a strategy the input order is kept.
+ */
+export function rankRoutes<T extends { feeUsd: number; fillTimeSeconds: number }>(
+    routes: T[],
+    strategy: SelectionStrategy | undefined,
+): T[] {
+    const byCost = (a: T, b: T) => a.feeUsd - b.feeUsd || a.fillTimeSeconds - b.fillTimeSeconds;
+    const bySpeed = (a: T, b: T) => a.fillTimeSeconds - b.fillTimeSeconds || a.feeUsd - b.feeUsd;
+
+    switch (strategy) {
+        case 'cheapest':
+            return [...routes].sort(byCost);
+        case 'fastest':
+            return [...routes].sort(bySpeed);
+        case 'best': {
+            const costRank = new Map([...routes].sort(byCost).map((route, i) => [route, i]));
+            const speedRank = new Map([...routes].sort(bySpeed).map((route, i) => [route, i]));
+            const score = (route: T) => costRank.get(route)! + speedRank.get(route)!;
+            return [...routes].sort((a, b) => score(a) - score(b) || byCost(a, b));
+        }
+        default:
+            return routes;
+    }
+}
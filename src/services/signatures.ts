@@ -0,0 +1,110 @@
+import { Address, Hex, TypedDataDefinition } from 'viem';
+import { z } from 'zod';
+import { appConfig, chainContexts } from '../chains';
+import { zPostIntentsData, zPostQuotesResponse } from '../gen/zod.gen';
+import { ApiError } from '../errors';
+import { QuoteExecutionPlan } from './quoteCache';
+
+export type SignData = z.infer<typeof zPostQuotesResponse>['routes'][number]['signData'];
+type IntentSignatures = NonNullable<z.infer<typeof zPostIntentsData>['body']>['signatures'];
+
+// Admin set strict mode, replacing the configured one
+let strictOverride: boolean | undefined;
+
+export function strictSignatures(): boolean {
+    return strictOverride ?? appConfig().strictSignatures ?? false;
+}
+
+/** Overrides strict signature checks, `undefined` restores the configured mode. */
+export function setStrictSignatures(strict: boolean | undefined): void {
+    strictOverride = strict;
+}
+
+/** Origin chains in the order their typed data appears in `signData.origin`. */
+export const originChainIds = (plan: QuoteExecutionPlan): number[] => [
+    ...new Set(plan.inputs.map((input) => input.chainId)),
+];
+
+export const buildSignData = (
+    originChainIds: number[],
+    destinationChainId: number,
+    accountAddress: Address,
+    intentId: string,
+): SignData => {
+    const types = {
+        Intent: [
+            { name: 'account', type: 'address' },
+            { name: 'intentId', type: 'uint256' },
+        ],
+    };
+    const message = { account: accountAddress, intentId };
+    const verifyingContract = '0x0000000000000000000000000000000000000000';
+
+    // Despite the OpenAPI spec showing `domain.chainId` as a CAIP-2 string, the
+    // SDK feeds the domain straight into viem's `hashDomain` (uint256), so the
+    // production server actually emits a numeric chainId here.
+    const buildTyped = (chainId: number) => ({
+        domain: {
+            name: 'Mockestrator',
+            version: '1',
+            chainId: chainId as unknown as string,
+            verifyingContract,
+        },
+        types,
+        primaryType: 'Intent',
+        message,
+    });
+
+    return {
+        origin: originChainIds.map(buildTyped),
+        destination: buildTyped(destinationChainId),
+    };
+};
+
+/**
+ * In strict mode, checks every signature against the typed data the quote
+ * handed out for its chain. Verification runs on that chain's fork, so EOAs,
+ * deployed ERC-1271 accounts and counterfactual ERC-6492 accounts all work.
+ */
+export async function verifyIntentSignatures(
+    intentId: string,
+    plan: QuoteExecutionPlan,
+    signatures: IntentSignatures,
+): Promise<void> {
+    if (!strictSignatures()) return;
+
+    const origins = originChainIds(plan);
+    const signData = buildSignData(origins, plan.destinationChainId, plan.accountAddress, intentId);
+
+    for (const [i, chainId] of origins.entries()) {
+        const signature = signatures.origin[i];
+        // Compact origin signatures carry the pre-claim and notarized claim signature, either may sign the intent
+        const candidates = typeof signature === 'string' ? [signature] : [signature.preClaimSig, signature.notarizedClaimSig];
+        if (!(await anyValid(chainId, plan.accountAddress, signData.origin[i], candidates as Hex[]))) {
+            throw new ApiError(401, 'UNAUTHORIZED', `Origin signature ${i} is not valid for ${plan.accountAddress}`, {
+                chainId,
+            });
+        }
+    }
+
+    if (!(await anyValid(plan.destinationChainId, plan.accountAddress, signData.destination, [signatures.destination as Hex]))) {
+        throw new ApiError(401, 'UNAUTHORIZED', `Destination signature is not valid for ${plan.accountAddress}`, {
+            chainId: plan.destinationChainId,
+        });
+    }
+}
+
+const anyValid = async (
+    chainId: number,
+    account: Address,
+    typedData: SignData['destination'],
+    signatures: Hex[],
+): Promise<boolean> => {
+    const ctx = chainContexts()[chainId];
+    for (const signature of signatures) {
+        if (await ctx.verifyTypedData(account, typedData as unknown as TypedDataDefinition, signature)) {
+            return true;
+        }
+    }
+    return false;
+};
@@ -0,0 +1,108 @@
+import { Hex } from 'viem';
+import { randomBytes } from 'crypto';
+import { appConfig, bootstrapContexts, chainContexts } from '../chains';
+import { ApiError } from '../errors';
+import { CachedQuote, exportQuotes, importQuotes, setQuoteTtl } from './quoteCache';
+import { exportIntents, importIntents, IntentRecord } from './intentRepo';
+import { replaceFailureRules } from './failureRules';
+import { clearLiquidityOverrides } from './liquidity';
+import { cancelLifecycles } from './intentLifecycle';
+import { setStrictSignatures } from './signatures';
+
+type StateSnapshot = {
+    id: string;
+    createdAt: number;
+    // evm_snapshot id per chain
+    chains: Record<number, Hex>;
+    quotes: [string, CachedQuote][];
+    intents: [string, IntentRecord][];
+};
+
+const snapshots: StateSnapshot[] = [];
+let bootChains: Record<number, Hex> | undefined;
+
+// Snapshot, restore and reset touch every fork, so never let them interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+};
+
+const snapshotChains = async (): Promise<Record<number, Hex>> => {
+    const ids: Record<number, Hex> = {};
+    for (const ctx of Object.values(chainContexts())) {
+        ids[ctx.chainId] = await ctx.snapshot();
+    }
+    return ids;
+};
+
+const revertChains = async (ids: Record<number, Hex>) => {
+    for (const ctx of Object.values(chainContexts())) {
+        const id = ids[ctx.chainId];
+        if (!id) {
+            throw new Error(`No snapshot recorded for chain ${ctx.chainId}`);
+        }
+        await ctx.revert(id);
+    }
+};
+
+/** Records the state right after startup so it can be restored by `resetToBootState`. */
+export const takeBootSnapshot = async () => {
+    bootChains = await snapshotChains();
+};
+
+export const takeSnapshot = (): Promise<{ id: string; createdAt: number }> =>
+    exclusive(async () => {
+        const snapshot: StateSnapshot = {
+            id: randomBytes(8).toString('hex'),
+            createdAt: Math.floor(Date.now() / 1000),
+            chains: await snapshotChains(),
+            quotes: exportQuotes(),
+            intents: exportIntents(),
+        };
+        snapshots.push(snapshot);
+        return { id: snapshot.id, createdAt: snapshot.createdAt };
+    });
+
+/**
+ * Reverts every fork and both repositories to the snapshot. Anvil drops a
+ * snapshot (and all later ones) on revert, so the forks are re-snapshotted to
+ * keep this id restorable while later snapshots are discarded.
+ */
+export const restoreSnapshot = (id: string): Promise<void> =>
+    exclusive(async () => {
+        const index = snapshots.findIndex((s) => s.id === id);
+        if (index < 0) {
+            throw new ApiError(404, 'NOT_FOUND', `Snapshot not found: ${id}`);
+        }
+        const snapshot = snapshots[index];
+
+        await cancelLifecycles();
+        await revertChains(snapshot.chains);
+        snapshot.chains = await snapshotChains();
+        importQuotes(snapshot.quotes);
+        importIntents(snapshot.intents);
+        snapshots.splice(index + 1);
+    });
+
+/** Reverts to the startup state, replays account setup and code overrides and clears all stored state. */
+export const resetToBootState = (): Promise<void> =>
+    exclusive(async () => {
+        if (!bootChains) {
+            throw new Error('Boot snapshot was not taken');
+        }
+
+        await cancelLifecycles();
+        await revertChains(bootChains);
+        await bootstrapContexts();
+        bootChains = await snapshotChains();
+        importQuotes([]);
+        importIntents([]);
+        replaceFailureRules(appConfig().failureRules ?? []);
+        clearLiquidityOverrides();
+        setQuoteTtl(undefined);
+        setStrictSignatures(undefined);
+        snapshots.splice(0);
+    });
@@ -0,0 +1,215 @@
+import { Address } from 'viem';
+import { z } from 'zod';
+import { ChainContext, chainContexts } from '../chains';
+import { zPostQuotesData } from '../gen/zod.gen';
+import { fromCaip2, isCaip2, toCaip2 } from '../caip2';
+import { ApiError } from '../errors';
+import { QuoteExecutionPlan } from './quoteCache';
+import { spendableBalance } from './tokenRequirements';
+
+type QuoteRequestBody = NonNullable<z.infer<typeof zPostQuotesData>['body']>;
+export type AccountAccessList = NonNullable<QuoteRequestBody['accountAccessList']>;
+
+export type SourceSelectionRequest = {
+    account: Address;
+    destinationChainId: number;
+    tokenRequests: { tokenAddress: Address; amount: bigint }[];
+    accessList?: AccountAccessList;
+};
+
+type Candidate = {
+    ctx: ChainContext;
+    tokenAddress: Address;
+    // Spendable amount: the account's balance, capped by chainTokenAmounts
+    available: bigint;
+};
+
+/**
+ * Picks the origin chains for every token request from the account's actual
+ * balances on the forks, honouring the access list and its exclusions. A single
+ * chain covering every request is preferred, the destination chain first. A
+ * request no single chain can cover is split across the chains holding the
+ * largest balances.
+ */
+export async function selectSources(request: SourceSelectionRequest): Promise<QuoteExecutionPlan['inputs']> {
+    const destination = chainContexts()[request.destinationChainId];
+    if (!destination) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Unsupported destination chain ${request.destinationChainId}`);
+    }
+
+    checkAccessList(request.accessList);
+    const candidates = await Promise.all(
+        request.tokenRequests.map((req) => findCandidates(request, destination, req.tokenAddress)),
+    );
+
+    const covers = (candidate: Candidate | undefined, amount: bigint) => candidate !== undefined && candidate.available >= amount;
+
+    const chainOrder = orderedContexts(request.destinationChainId).map((ctx) => ctx.chainId);
+    const singleChain = chainOrder.find((chainId) =>
+        request.tokenRequests.every((req, i) => covers(candidates[i].find((c) => c.ctx.chainId === chainId), req.amount)),
+    );
+
+    return request.tokenRequests.flatMap((req, i) => {
+        const pick =
+            candidates[i].find((c) => c.ctx.chainId === singleChain) ?? candidates[i].find((c) => covers(c, req.amount));
+        if (pick) {
+            return [{ chainId: pick.ctx.chainId, tokenAddress: pick.tokenAddress, amount: req.amount }];
+        }
+        return aggregate(candidates[i], req);
+    });
+}
+
+/**
+ * Picks the origin chain that pays a fee charged in `symbol`: the first origin
+ * chain (destination first) where the account holds the fee on top of whatever
+ * the inputs already take from the same token.
+ */
+export async function selectFeeInput(
+    account: Address,
+    symbol: string,
+    amountFor: (chainId: number, tokenAddress: Address) => bigint | undefined,
+    inputs: QuoteExecutionPlan['inputs'],
+    destinationChainId: number,
+): Promise<NonNullable<QuoteExecutionPlan['feeInput']>> {
+    const originChainIds = new Set(inputs.map((i) => i.chainId));
+    const checked = [];
+
+    for (const ctx of orderedContexts(destinationChainId).filter((ctx) => originChainIds.has(ctx.chainId))) {
+        const tokenAddress = ctx.maybeAddress(symbol);
+        const amount = tokenAddress && amountFor(ctx.chainId, tokenAddress);
+        if (!tokenAddress || amount === undefined) continue;
+
+        const reserved = inputs
+            .filter((i) => i.chainId === ctx.chainId && i.tokenAddress.toLowerCase() === tokenAddress.toLowerCase())
+            .reduce((acc, i) => acc + i.amount, 0n);
+        const balance = await ctx.tokenBalance(account, symbol);
+        if (balance >= reserved + amount) {
+            return { chainId: ctx.chainId, tokenAddress, amount };
+        }
+        checked.push({ chainId: toCaip2(ctx.chainId), required: (reserved + amount).toString(), available: balance.toString() });
+    }
+
+    if (checked.length === 0) {
+        throw new ApiError(400, 'VALIDATION_ERROR', `Fee token ${symbol} is not available on the origin chains`);
+    }
+    throw new ApiError(422, 'INSUFFICIENT_LIQUIDITY', `Insufficient ${symbol} balance to pay the fee on the origin chains`, {
+        feeToken: symbol,
+        checked,
+    });
+}
+
+const aggregate = (
+    candidates: Candidate[],
+    req: { tokenAddress: Address; amount: bigint },
+): QuoteExecutionPlan['inputs'] => {
+    const inputs: QuoteExecutionPlan['inputs'] = [];
+    let remaining = req.amount;
+
+    for (const candidate of [...candidates].sort((a, b) => (b.available > a.available ? 1 : b.available < a.available ? -1 : 0))) {
+        if (remaining === 0n) break;
+        if (candidate.available === 0n) continue;
+        const amount = candidate.available < remaining ? candidate.available : remaining;
+        inputs.push({ chainId: candidate.ctx.chainId, tokenAddress: candidate.tokenAddress, amount });
+        remaining -= amount;
+    }
+
+    if (remaining > 0n) {
+        throw new ApiError(422, 'INSUFFICIENT_LIQUIDITY', `Insufficient balance to cover ${req.amount} of ${req.tokenAddress}`, {
+            tokenAddress: req.tokenAddress,
+            amount: req.amount.toString(),
+            available: candidates.map((c) => ({ chainId: toCaip2(c.ctx.chainId), available: c.available.toString() })),
+        });
+    }
+    return inputs;
+};
+
+const orderedContexts = (destinationChainId: number): ChainContext[] => {
+    const all = Object.values(chainContexts());
+    return [...all.filter((ctx) => ctx.chainId === destinationChainId), ...all.filter((ctx) => ctx.chainId !== destinationChainId)];
+};
+
+const findCandidates = async (
+    request: SourceSelectionRequest,
+    destination: ChainContext,
+    destinationToken: Address,
+): Promise<Candidate[]> => {
+    // Tokens are matched by symbol across chains
+    const symbol = destination.tokenSymbol(destinationToken);
+    if (!symbol) {
+        throw new ApiError(
+            400,
+            'VALIDATION_ERROR',
+            `Token ${destinationToken} is not supported on chain ${request.destinationChainId}`,
+        );
+    }
+
+    const candidates = await Promise.all(
+        orderedContexts(request.destinationChainId).map(async (ctx): Promise<Candidate | undefined> => {
+            const tokenAddress = ctx.maybeAddress(symbol);
+            if (!tokenAddress) return undefined;
+
+            const access = accessFor(request.accessList, ctx.chainId, symbol, tokenAddress);
+            if (!access.allowed) return undefined;
+
+            const balance = await spendableBalance(ctx, request.account, symbol);
+            const available = access.cap !== undefined && access.cap < balance ? access.cap : balance;
+            return { ctx, tokenAddress, available };
+        }),
+    );
+    return candidates.filter((c): c is Candidate => c !== undefined);
+};
+
+const matchesToken = (entry: string, symbol: string, tokenAddress: Address) =>
+    entry === symbol || entry.toLowerCase() === tokenAddress.toLowerCase();
+
+/**
+ * Rejects chain keys and amounts of the access list that the request schema
+ * lets through but source selection cannot parse.
+ */
+const checkAccessList = (list: AccountAccessList | undefined) => {
+    if (!list) return;
+    const keyed = [list.chainTokens, list.chainTokenAmounts, list.exclude?.chainTokens];
+    for (const key of keyed.flatMap((record) => Object.keys(record ?? {}))) {
+        if (!isCaip2(key)) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Invalid accountAccessList chain id ${key}`);
+        }
+    }
+    for (const amount of Object.values(list.chainTokenAmounts ?? {}).flatMap((amounts) => Object.values(amounts))) {
+        if (!/^\d+$/.test(amount)) {
+            throw new ApiError(400, 'VALIDATION_ERROR', `Invalid accountAccessList chainTokenAmounts amount ${amount}`);
+        }
+    }
+};
+
+const findCaip2Key = <T>(record: Record<string, T> | undefined, chainId: number): T | undefined =>
+    record ? Object.entries(record).find(([key]) => fromCaip2(key) === chainId)?.[1] : undefined;
+
+const accessFor = (
+    list: AccountAccessList | undefined,
+    chainId: number,
+    symbol: string,
+    tokenAddress: Address,
+): { allowed: boolean; cap?: bigint } => {
+    if (!list) return { allowed: true };
+    const denied = { allowed: false };
+
+    if (list.chainIds && !list.chainIds.map(fromCaip2).includes(chainId)) return denied;
+    if (list.tokens && !list.tokens.some((t) => matchesToken(t, symbol, tokenAddress))) return denied;
+    if (list.chainTokens) {
+        const tokens = findCaip2Key(list.chainTokens, chainId);
+        if (!tokens || !tokens.some((t) => matchesToken(t, symbol, tokenAddress))) return denied;
+    }
+
+    const exclude = list.exclude;
+    if (exclude?.chainIds?.map(fromCaip2).includes(chainId)) return denied;
+    if (exclude?.tokens?.some((t) => matchesToken(t, symbol, tokenAddress))) return denied;
+    if (findCaip2Key(exclude?.chainTokens, chainId)?.some((t) => matchesToken(t, symbol, tokenAddress))) return denied;
+
+    if (list.chainTokenAmounts) {
+        const amounts = findCaip2Key(list.chainTokenAmounts, chainId);
+        const cap = amounts && Object.entries(amounts).find(([token]) => matchesToken(token, symbol, tokenAddress))?.[1];
+        if (cap === undefined) return denied;
+        return { allowed: true, cap: BigInt(cap) };
+    }
+    return { allowed: true };
+};
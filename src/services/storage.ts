@@ -0,0 +1,104 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { appConfig } from '../chains';
+
+export interface Repository<T> {
+    get(id: string): T | undefined;
+    set(id: string, value: T): void;
+    delete(id: string): void;
+    entries(): [string, T][];
+    clear(): void;
+}
+
+export class InMemoryRepository<T> implements Repository<T> {
+    protected items = new Map<string, T>();
+
+    get(id: string): T | undefined {
+        return this.items.get(id);
+    }
+
+    set(id: string, value: T): void {
+        this.items.set(id, value);
+    }
+
+    delete(id: string): void {
+        this.items.delete(id);
+    }
+
+    entries(): [string, T][] {
+        return Array.from(this.items.entries());
+    }
+
+    clear(): void {
+        for (const id of Array.from(this.items.keys())) {
+            this.delete(id);
+        }
+    }
+}
+
+type LogEntry<T> = { op: 'set'; id: string; value: T } | { op: 'delete'; id: string };
+
+/**
+ * Append-only JSON-lines log replayed into memory on startup. The log is
+ * compacted to one line per live entry whenever it is loaded.
+ */
+export class JsonLinesRepository<T> extends InMemoryRepository<T> {
+    constructor(private path: string) {
+        super();
+        this.load();
+    }
+
+    set(id: string, value: T): void {
+        super.set(id, value);
+        this.append({ op: 'set', id, value });
+    }
+
+    delete(id: string): void {
+        super.delete(id);
+        this.append({ op: 'delete', id });
+    }
+
+    private append(entry: LogEntry<T>) {
+        appendFileSync(this.path, encode(entry) + '\n');
+    }
+
+    private load() {
+        if (!existsSync(this.path)) return;
+
+        for (const line of readFileSync(this.path, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            const entry = decode<LogEntry<T>>(line);
+            if (entry.op === 'set') {
+                this.items.set(entry.id, entry.value);
+            } else {
+                this.items.delete(entry.id);
+            }
+        }
+
+        const compacted = this.entries().map(([id, value]) => encode({ op: 'set', id, value }) + '\n');
+        writeFileSync(`${this.path}.tmp`, compacted.join(''));
+        renameSync(`${this.path}.tmp`, this.path);
+        console.log(`Loaded ${this.items.size} entries from ${this.path}`);
+    }
+}
+
+// BigInt.prototype.toJSON already turns bigints into strings before a replacer
+// sees them, so look at the raw holder value to keep the type on disk.
+const encode = (value: unknown): string =>
+    JSON.stringify(value, function (this: Record<string, unknown>, key: string, v: unknown) {
+        const raw = this[key];
+        return typeof raw === 'bigint' ? { $bigint: raw.toString() } : v;
+    });
+
+const decode = <T>(line: string): T =>
+    JSON.parse(line, (_, v) => (v && typeof v === 'object' && typeof v.$bigint === 'string' ? BigInt(v.$bigint) : v));
+
+export function createRepository<T>(name: string): Repository<T> {
+    const storage = appConfig().storage ?? { type: 'memory' };
+    if (storage.type === 'memory') {
+        return new InMemoryRepository<T>();
+    }
+
+    mkdirSync(storage.directory, { recursive: true });
+    return new JsonLinesRepository<T>(join(storage.directory, `${name}.jsonl`));
+}
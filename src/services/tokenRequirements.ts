@@ -0,0 +1,80 @@
+import { Address, getAddress, zeroAddress } from 'viem';
+import { z } from 'zod';
+import { appConfig, ChainContext, chainContexts } from '../chains';
+import { zPostQuotesResponse } from '../gen/zod.gen';
+import { toCaip2 } from '../caip2';
+import { claimedInputs } from './execution';
+import { QuoteExecutionPlan } from './quoteCache';
+
+export type TokenRequirements = NonNullable<
+    z.infer<typeof zPostQuotesResponse>['routes'][number]['tokenRequirements']
+>;
+
+type Requirement = TokenRequirements[string][string];
+
+// Canonical Permit2 deployment
+const DEFAULT_APPROVAL_SPENDER = getAddress('0x000000000022D473030F116dDEE9F6B43aC78BA3');
+
+export const approvalSpender = (): Address => appConfig().approvalSpender ?? DEFAULT_APPROVAL_SPENDER;
+
+/** Native symbol a wrapped token unwraps into on this chain, e.g. WETH -> ETH. */
+const nativeCounterpart = (ctx: ChainContext, symbol: string): string | undefined => {
+    const native = symbol.startsWith('W') ? symbol.slice(1) : undefined;
+    return native && ctx.maybeAddress(native) === zeroAddress ? native : undefined;
+};
+
+/**
+ * Balance the account can spend in `symbol`, counting the native balance for
+ * wrapped tokens since it can be wrapped before submission.
+ */
+export async function spendableBalance(ctx: ChainContext, account: Address, symbol: string): Promise<bigint> {
+    const balance = await ctx.tokenBalance(account, symbol);
+    const native = nativeCounterpart(ctx, symbol);
+    return native ? balance + (await ctx.tokenBalance(account, native)) : balance;
+}
+
+/**
+ * Approvals and wraps the account has to do on each origin chain before the
+ * claims can pull the inputs, keyed by CAIP-2 chain id and token address.
+ * Requirements that are already met on-chain are left out.
+ */
+export async function tokenRequirements(plan: QuoteExecutionPlan): Promise<TokenRequirements> {
+    const totals = new Map<string, { chainId: number; tokenAddress: Address; amount: bigint }>();
+    for (const input of claimedInputs(plan)) {
+        const key = `${input.chainId}:${input.tokenAddress.toLowerCase()}`;
+        const total = totals.get(key);
+        totals.set(key, { ...input, amount: (total?.amount ?? 0n) + input.amount });
+    }
+
+    const requirements: TokenRequirements = {};
+    for (const { chainId, tokenAddress, amount } of totals.values()) {
+        const requirement = await requirementFor(plan.accountAddress, chainId, tokenAddress, amount);
+        if (requirement) {
+            requirements[toCaip2(chainId)] = { ...requirements[toCaip2(chainId)], [tokenAddress]: requirement };
+        }
+    }
+    return requirements;
+}
+
+const requirementFor = async (
+    account: Address,
+    chainId: number,
+    tokenAddress: Address,
+    amount: bigint,
+): Promise<Requirement | undefined> => {
+    const ctx = chainContexts()[chainId];
+    const symbol = ctx?.tokenSymbol(tokenAddress);
+    if (!symbol || tokenAddress === zeroAddress) return undefined;
+
+    // A token is wrapped first and approved afterwards, so only the wrap is reported until it is done
+    if (nativeCounterpart(ctx, symbol)) {
+        const balance = await ctx.tokenBalance(account, symbol);
+        if (balance < amount) {
+            return { type: 'wrap', amount: (amount - balance).toString() };
+        }
+    }
+
+    const spender = approvalSpender();
+    const allowance = await ctx.allowance(account, spender, symbol);
+    return allowance < amount ? { type: 'approval', amount: amount.toString(), spender } : undefined;
+};